@@ -0,0 +1,131 @@
+import axios, { AxiosError, AxiosInstance, CreateAxiosDefaults, InternalAxiosRequestConfig } from 'axios';
+import { getHttpConfig } from '../utils/config.js';
+import { createLogger } from '../utils/logger.js';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Retry this request on transient failures even if its method is not idempotent
+    retry?: boolean;
+    retryCount?: number;
+    holdsSlot?: boolean;
+  }
+}
+
+const logger = createLogger('http-client');
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+
+// One limiter for every client, so JIRA and Zephyr fan-out share the same budget
+let activeRequests = 0;
+const waiting: Array<() => void> = [];
+
+const acquireSlot = async (): Promise<void> => {
+  if (activeRequests < getHttpConfig().HTTP_MAX_CONCURRENCY) {
+    activeRequests++;
+    return;
+  }
+  await new Promise<void>(resolve => waiting.push(resolve));
+};
+
+const releaseSlot = (config?: InternalAxiosRequestConfig) => {
+  if (!config?.holdsSlot) {
+    return;
+  }
+  config.holdsSlot = false;
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    activeRequests--;
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retry-After is either a number of seconds or an HTTP date
+const getRetryAfterMs = (value: unknown): number | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const isRetryable = (error: AxiosError, config: InternalAxiosRequestConfig): boolean => {
+  const method = (config.method || 'get').toLowerCase();
+  if (!(config.retry ?? IDEMPOTENT_METHODS.includes(method))) {
+    return false;
+  }
+  return error.response
+    ? RETRYABLE_STATUSES.includes(error.response.status)
+    : RETRYABLE_ERROR_CODES.includes(error.code || '');
+};
+
+/**
+ * Delay before the next attempt: what Retry-After asks for, otherwise
+ * exponential backoff with full jitter. Undefined means do not retry, e.g.
+ * when the server asks to wait longer than HTTP_RETRY_MAX_DELAY_MS.
+ */
+const getRetryDelay = (error: AxiosError, attempt: number): number | undefined => {
+  const { HTTP_RETRY_BASE_DELAY_MS, HTTP_RETRY_MAX_DELAY_MS } = getHttpConfig();
+  const retryAfter = getRetryAfterMs(error.response?.headers?.['retry-after']);
+  if (retryAfter !== undefined) {
+    return retryAfter > HTTP_RETRY_MAX_DELAY_MS
+      ? undefined
+      : retryAfter + Math.random() * HTTP_RETRY_BASE_DELAY_MS;
+  }
+  return Math.random() * Math.min(HTTP_RETRY_MAX_DELAY_MS, HTTP_RETRY_BASE_DELAY_MS * 2 ** attempt);
+};
+
+/**
+ * Create an axios instance whose requests go through the shared concurrency
+ * limiter and are retried on 429, 502-504 and dropped connections.
+ */
+export const createHttpClient = (name: string, defaults: CreateAxiosDefaults): AxiosInstance => {
+  const client = axios.create(defaults);
+
+  client.interceptors.request.use(async config => {
+    await acquireSlot();
+    config.holdsSlot = true;
+    return config;
+  });
+
+  client.interceptors.response.use(
+    response => {
+      releaseSlot(response.config);
+      return response;
+    },
+    async (error: unknown) => {
+      if (!axios.isAxiosError(error) || !error.config) {
+        throw error;
+      }
+      const config = error.config;
+      releaseSlot(config);
+
+      const attempt = config.retryCount || 0;
+      if (attempt >= getHttpConfig().HTTP_MAX_RETRIES || !isRetryable(error, config)) {
+        throw error;
+      }
+      const delay = getRetryDelay(error, attempt);
+      if (delay === undefined) {
+        throw error;
+      }
+
+      logger.warn(`${name}: retrying ${config.method?.toUpperCase()} ${config.url} in ${Math.round(delay)}ms`, {
+        status: error.response?.status,
+        code: error.code,
+        attempt: attempt + 1,
+      });
+      await sleep(delay);
+      return client.request({ ...config, retryCount: attempt + 1 });
+    }
+  );
+
+  return client;
+};
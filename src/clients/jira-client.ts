@@ -1,13 +1,16 @@
-import axios, { AxiosInstance } from 'axios';
+import { AxiosInstance } from 'axios';
+import { createHttpClient } from './http-client.js';
 import { getAppConfig, getJiraAuth } from '../utils/config.js';
-import { JiraIssue, JiraProject, JiraVersion } from '../types/jira-types.js';
+import { AdfDocument, JiraIssue, JiraProject, JiraVersion } from '../types/jira-types.js';
+import { toAdf } from '../utils/adf.js';
+import { collectPages } from '../utils/pagination.js';
 
 export class JiraClient {
   private client: AxiosInstance;
 
   constructor() {
     const config = getAppConfig();
-    this.client = axios.create({
+    this.client = createHttpClient('jira', {
       baseURL: `${config.JIRA_BASE_URL}/rest/api/3`,
       auth: getJiraAuth(),
       headers: {
@@ -34,27 +37,57 @@ export class JiraClient {
     return response.data;
   }
 
-  async searchIssues(jql: string, fields?: string[], maxResults = 50): Promise<{
+  async findProjectVersion(projectKey: string, name: string): Promise<JiraVersion | undefined> {
+    const versions = await this.getProjectVersions(projectKey);
+    return versions.find(version => version.name === name)
+      || versions.find(version => version.name.toLowerCase() === name.toLowerCase());
+  }
+
+  async searchIssues(jql: string, fields?: string[], maxResults = 50, startAt = 0): Promise<{
     issues: JiraIssue[];
     total: number;
+    startAt: number;
+    maxResults: number;
   }> {
     const params = {
       jql,
       fields: fields?.join(',') || '*all',
       maxResults,
+      startAt,
     };
     
     const response = await this.client.get('/search', { params });
     return {
       issues: response.data.issues,
       total: response.data.total,
+      startAt: response.data.startAt ?? startAt,
+      maxResults: response.data.maxResults ?? maxResults,
     };
   }
 
+  // Every issue matching the JQL, up to maxIssues; /search returns at most 100 per page
+  async searchAllIssues(jql: string, fields?: string[], maxIssues = Infinity): Promise<{
+    issues: JiraIssue[];
+    total: number;
+  }> {
+    let total = 0;
+    const issues = await collectPages(async startAt => {
+      const page = await this.searchIssues(jql, fields, Math.min(100, maxIssues - startAt), startAt);
+      total = page.total;
+      return {
+        values: page.issues,
+        total: page.total,
+        startAt: page.startAt,
+        isLast: page.startAt + page.issues.length >= page.total,
+      };
+    }, maxIssues);
+    return { issues, total };
+  }
+
   async createIssue(issueData: {
     projectKey: string;
     summary: string;
-    description?: string;
+    description?: string | AdfDocument;
     issueType: string;
     priority?: string;
     assignee?: string;
@@ -65,17 +98,7 @@ export class JiraClient {
       fields: {
         project: { key: issueData.projectKey },
         summary: issueData.summary,
-        description: issueData.description ? {
-          type: 'doc',
-          version: 1,
-          content: [{
-            type: 'paragraph',
-            content: [{
-              type: 'text',
-              text: issueData.description,
-            }],
-          }],
-        } : undefined,
+        description: issueData.description ? toAdf(issueData.description) : undefined,
         issuetype: { name: issueData.issueType },
         priority: issueData.priority ? { name: issueData.priority } : undefined,
         assignee: issueData.assignee ? { accountId: issueData.assignee } : undefined,
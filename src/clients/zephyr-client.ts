@@ -1,5 +1,9 @@
-import axios, { AxiosInstance } from 'axios';
+import { AxiosInstance } from 'axios';
+import { createHttpClient } from './http-client.js';
 import { getZephyrHeaders, getZephyrBaseUrl } from '../utils/config.js';
+import { createLogger } from '../utils/logger.js';
+import { collectPages, getNextStartAt, Page } from '../utils/pagination.js';
+import { summarizeExecutions } from '../utils/executions.js';
 import {
   ZephyrTestPlan,
   ZephyrTestCycle,
@@ -7,19 +11,58 @@ import {
   ZephyrTestCase,
   ZephyrTestReport,
   ZephyrExecutionSummary,
+  ZephyrFolder,
+  ZephyrFolderType,
+  ZephyrExecutionStatus,
+  ZephyrTestStepResult,
+  ZephyrTestStepUpdate,
+  ZephyrStatus,
+  ZephyrStatusType,
+  ZephyrPriority,
 } from '../types/zephyr-types.js';
 
+const logger = createLogger('zephyr-client');
+
+// Zephyr Scale expects status names rather than the enum values used by the tools
+const EXECUTION_STATUS_NAMES: Record<ZephyrExecutionStatus, string> = {
+  PASS: 'Pass',
+  FAIL: 'Fail',
+  WIP: 'In Progress',
+  BLOCKED: 'Blocked',
+  NOT_EXECUTED: 'Not Executed',
+};
+
+const PAGE_SIZE = 100;
+// Extra test case fields, where the API supports them
+const TEST_CASE_EXPAND = 'folder,labels,component,priority,status';
+
 export class ZephyrClient {
   private client: AxiosInstance;
 
   constructor() {
-    this.client = axios.create({
+    this.client = createHttpClient('zephyr', {
       baseURL: getZephyrBaseUrl(),
       headers: getZephyrHeaders(),
       timeout: 30000,
     });
   }
 
+  // Zephyr list endpoints page with startAt/maxResults and flag the last page with isLast
+  private async getPage<T>(path: string, params: object, limit: number, offset: number): Promise<Page<T>> {
+    const response = await this.client.get(path, { params: { ...params, maxResults: limit, startAt: offset } });
+    const values: T[] = response.data.values || response.data || [];
+    return {
+      values,
+      total: response.data.total || values.length,
+      startAt: response.data.startAt ?? offset,
+      isLast: response.data.isLast ?? values.length < limit,
+    };
+  }
+
+  private getAllPages<T>(path: string, params: object = {}): Promise<T[]> {
+    return collectPages(startAt => this.getPage<T>(path, params, PAGE_SIZE, startAt));
+  }
+
   async createTestPlan(data: {
     name: string;
     description?: string;
@@ -42,25 +85,102 @@ export class ZephyrClient {
   async getTestPlans(projectKey: string, limit = 50, offset = 0): Promise<{
     testPlans: ZephyrTestPlan[];
     total: number;
+    isLast: boolean;
+    nextStartAt: number | null;
   }> {
-    const params = {
-      projectKey,
-      maxResults: limit,
-      startAt: offset,
+    const page = await this.getPage<ZephyrTestPlan>('/testplans', { projectKey }, limit, offset);
+    return {
+      testPlans: page.values,
+      total: page.total,
+      isLast: page.isLast,
+      nextStartAt: getNextStartAt(page),
     };
+  }
 
-    const response = await this.client.get('/testplans', { params });
-    return {
-      testPlans: response.data.values || response.data,
-      total: response.data.total || response.data.length,
+  async getTestPlan(testPlanId: string): Promise<ZephyrTestPlan> {
+    const response = await this.client.get(`/testplans/${testPlanId}`);
+    return response.data;
+  }
+
+  /**
+   * Load the test cycles linked to a plan, with their executions unless
+   * includeExecutions is false. Links without a test cycle ID and cycles that
+   * fail to load are reported as warnings instead.
+   */
+  async getTestPlanCycles(testPlan: ZephyrTestPlan, includeExecutions = true): Promise<{
+    cycles: Array<{ cycle: ZephyrTestCycle; executions: ZephyrTestExecution[] }>;
+    warnings: string[];
+  }> {
+    const cycles: Array<{ cycle: ZephyrTestCycle; executions: ZephyrTestExecution[] }> = [];
+    const warnings: string[] = [];
+
+    for (const link of testPlan.links?.testCycles || []) {
+      if (!link.testCycleId) {
+        warnings.push(`Skipped test cycle link ${link.id}: it has no test cycle ID`);
+        continue;
+      }
+      const cycleId = String(link.testCycleId);
+      try {
+        const cycle = await this.getTestCycle(cycleId);
+        const executions = includeExecutions ? await this.getTestCycleExecutions(cycle.key || cycleId) : [];
+        cycles.push({ cycle, executions });
+      } catch (error: any) {
+        warnings.push(`Failed to load test cycle ${cycleId}: ${error.response?.data?.message || error.message}`);
+      }
+    }
+
+    return { cycles, warnings };
+  }
+
+  async updateTestPlan(testPlanId: string, updates: {
+    name?: string;
+    objective?: string;
+    statusId?: number;
+    folderId?: number | null;
+    ownerId?: string | null;
+    labels?: string[];
+  }): Promise<ZephyrTestPlan> {
+    // Like test cycles, plans are updated by sending back the full object
+    const current: any = await this.getTestPlan(testPlanId);
+    const payload = {
+      ...current,
+      name: updates.name ?? current.name,
+      objective: updates.objective ?? current.objective,
+      status: updates.statusId !== undefined ? { id: updates.statusId } : current.status,
+      folder: updates.folderId !== undefined
+        ? (updates.folderId === null ? null : { id: updates.folderId })
+        : current.folder,
+      owner: updates.ownerId !== undefined
+        ? (updates.ownerId === null ? null : { accountId: updates.ownerId })
+        : current.owner,
+      labels: updates.labels ?? current.labels,
     };
+
+    await this.client.put(`/testplans/${testPlanId}`, payload);
+    return this.getTestPlan(testPlanId);
+  }
+
+  async linkTestCycleToTestPlan(testPlanId: string, cycleId: string): Promise<void> {
+    await this.client.post(`/testplans/${testPlanId}/links/testcycles`, {
+      testCycleIdOrKey: cycleId,
+    });
+  }
+
+  async linkIssueToTestPlan(testPlanId: string, issueId: string): Promise<void> {
+    await this.client.post(`/testplans/${testPlanId}/links/issues`, {
+      issueId: Number(issueId),
+    });
+  }
+
+  async deleteLink(linkId: number): Promise<void> {
+    await this.client.delete(`/links/${linkId}`);
   }
 
   async createTestCycle(data: {
     name: string;
     description?: string;
     projectKey: string;
-    versionId: string;
+    versionId?: string;
     environment?: string;
     startDate?: string;
     endDate?: string;
@@ -79,21 +199,74 @@ export class ZephyrClient {
     return response.data;
   }
 
-  async getTestCycles(projectKey: string, versionId?: string, limit = 50): Promise<{
+  async getTestCycles(projectKey: string, versionId?: string, limit = 50, offset = 0): Promise<{
     testCycles: ZephyrTestCycle[];
     total: number;
+    isLast: boolean;
+    nextStartAt: number | null;
   }> {
-    const params = {
-      projectKey,
-      versionId,
-      maxResults: limit,
+    const page = await this.getPage<ZephyrTestCycle>('/testcycles', { projectKey, versionId }, limit, offset);
+    return {
+      testCycles: page.values,
+      total: page.total,
+      isLast: page.isLast,
+      nextStartAt: getNextStartAt(page),
     };
+  }
 
-    const response = await this.client.get('/testcycles', { params });
-    return {
-      testCycles: response.data.values || response.data,
-      total: response.data.total || response.data.length,
+  async getAllTestCycles(projectKey: string, versionId?: string): Promise<ZephyrTestCycle[]> {
+    return this.getAllPages<ZephyrTestCycle>('/testcycles', { projectKey, versionId });
+  }
+
+  async getTestCycle(cycleId: string): Promise<ZephyrTestCycle> {
+    const response = await this.client.get(`/testcycles/${cycleId}`);
+    return response.data;
+  }
+
+  async updateTestCycle(cycleId: string, updates: {
+    name?: string;
+    description?: string;
+    statusId?: number;
+    plannedStartDate?: string;
+    plannedEndDate?: string;
+    folderId?: number | null;
+    ownerId?: string | null;
+  }): Promise<ZephyrTestCycle> {
+    // The update endpoint replaces the whole cycle, so unchanged fields are sent back as read
+    const current: any = await this.getTestCycle(cycleId);
+    const payload = {
+      ...current,
+      name: updates.name ?? current.name,
+      description: updates.description ?? current.description,
+      status: updates.statusId !== undefined ? { id: updates.statusId } : current.status,
+      plannedStartDate: updates.plannedStartDate ?? current.plannedStartDate,
+      plannedEndDate: updates.plannedEndDate ?? current.plannedEndDate,
+      folder: updates.folderId !== undefined
+        ? (updates.folderId === null ? null : { id: updates.folderId })
+        : current.folder,
+      owner: updates.ownerId !== undefined
+        ? (updates.ownerId === null ? null : { accountId: updates.ownerId })
+        : current.owner,
     };
+
+    await this.client.put(`/testcycles/${cycleId}`, payload);
+    return this.getTestCycle(cycleId);
+  }
+
+  async deleteTestCycle(cycleId: string): Promise<void> {
+    await this.client.delete(`/testcycles/${cycleId}`);
+  }
+
+  async addTestCycleWebLink(cycleId: string, url: string, description?: string): Promise<void> {
+    await this.client.post(`/testcycles/${cycleId}/links/weblinks`, { url, description });
+  }
+
+  async getStatuses(projectKey: string, statusType: ZephyrStatusType): Promise<ZephyrStatus[]> {
+    return this.getAllPages<ZephyrStatus>('/statuses', { projectKey, statusType });
+  }
+
+  async getPriorities(projectKey: string): Promise<ZephyrPriority[]> {
+    return this.getAllPages<ZephyrPriority>('/priorities', { projectKey });
   }
 
   async getTestExecution(executionId: string): Promise<ZephyrTestExecution> {
@@ -101,52 +274,159 @@ export class ZephyrClient {
     return response.data;
   }
 
+  async linkTestExecutionToIssue(executionId: string, issueId: string): Promise<void> {
+    const payload = {
+      issueId: Number(issueId),
+    };
+
+    await this.client.post(`/testexecutions/${executionId}/links/issues`, payload);
+  }
+
+  async getTestExecutions(filters: {
+    projectKey?: string;
+    testCase?: string;
+    testCycle?: string;
+    actualEndDateAfter?: string;
+    actualEndDateBefore?: string;
+    onlyLastExecutions?: boolean;
+  }, limit = 100, offset = 0): Promise<{
+    executions: ZephyrTestExecution[];
+    total: number;
+    isLast: boolean;
+    nextStartAt: number | null;
+  }> {
+    const page = await this.getPage<ZephyrTestExecution>('/testexecutions', filters, limit, offset);
+    return {
+      executions: page.values,
+      total: page.total,
+      isLast: page.isLast,
+      nextStartAt: getNextStartAt(page),
+    };
+  }
+
+  async getAllTestExecutions(filters: {
+    projectKey?: string;
+    testCase?: string;
+    testCycle?: string;
+    actualEndDateAfter?: string;
+    actualEndDateBefore?: string;
+    onlyLastExecutions?: boolean;
+  }): Promise<ZephyrTestExecution[]> {
+    return this.getAllPages<ZephyrTestExecution>('/testexecutions', filters);
+  }
+
+  async getTestCycleExecutions(cycleId: string): Promise<ZephyrTestExecution[]> {
+    return this.getAllPages<ZephyrTestExecution>(`/testcycles/${cycleId}/testexecutions`);
+  }
+
+  async createTestExecution(data: {
+    projectKey: string;
+    testCaseKey: string;
+    cycleId: string;
+    status?: ZephyrExecutionStatus;
+    environment?: string;
+    assigneeId?: string;
+    plannedStartDate?: string;
+    plannedEndDate?: string;
+    comment?: string;
+    executionTime?: number;
+    actualEndDate?: string;
+  }): Promise<ZephyrTestExecution> {
+    const payload = {
+      projectKey: data.projectKey,
+      testCaseKey: data.testCaseKey,
+      testCycleKey: data.cycleId,
+      statusName: EXECUTION_STATUS_NAMES[data.status || 'NOT_EXECUTED'],
+      environmentName: data.environment,
+      assignedToId: data.assigneeId,
+      plannedStartDate: data.plannedStartDate,
+      plannedEndDate: data.plannedEndDate,
+      comment: data.comment,
+      executionTime: data.executionTime,
+      actualEndDate: data.actualEndDate,
+    };
+
+    const response = await this.client.post('/testexecutions', payload);
+    return response.data;
+  }
+
   async updateTestExecution(data: {
     executionId: string;
     status: 'PASS' | 'FAIL' | 'WIP' | 'BLOCKED';
     comment?: string;
     defects?: string[];
+    executionTime?: number;
+    actualEndDate?: string;
+    // Complete step list, as returned by mergeTestExecutionSteps
+    steps?: ZephyrTestStepUpdate[];
   }): Promise<ZephyrTestExecution> {
+    // Steps go first, so a failed write cannot leave a status the steps do not back up
+    if (data.steps) {
+      await this.client.put(`/testexecutions/${data.executionId}/teststeps`, { steps: data.steps });
+    }
+
     const payload = {
       status: data.status,
       comment: data.comment,
       issues: data.defects?.map(key => ({ key })),
+      executionTime: data.executionTime,
+      actualEndDate: data.actualEndDate,
     };
 
     const response = await this.client.put(`/testexecutions/${data.executionId}`, payload);
     return response.data;
   }
 
-  async getTestExecutionSummary(cycleId: string): Promise<ZephyrExecutionSummary> {
-    const response = await this.client.get(`/testcycles/${cycleId}/testexecutions`);
-    const executions = response.data.values;
-
-    const summary = executions.reduce(
-      (acc: any, execution: any) => {
-        acc.total++;
-        switch (execution.status) {
-          case 'PASS':
-            acc.passed++;
-            break;
-          case 'FAIL':
-            acc.failed++;
-            break;
-          case 'BLOCKED':
-            acc.blocked++;
-            break;
-          case 'WIP':
-            acc.inProgress++;
-            break;
-          default:
-            acc.notExecuted++;
-        }
-        return acc;
-      },
-      { total: 0, passed: 0, failed: 0, blocked: 0, inProgress: 0, notExecuted: 0 }
-    );
+  async getTestExecutionSteps(executionId: string): Promise<ZephyrTestStepResult[]> {
+    const response = await this.client.get(`/testexecutions/${executionId}/teststeps`);
+    return response.data.values || response.data || [];
+  }
+
+  async updateTestExecutionSteps(
+    executionId: string,
+    stepResults: Array<{
+      index: number;
+      status: ZephyrExecutionStatus;
+      actualResult?: string;
+      comment?: string;
+    }>
+  ): Promise<void> {
+    const steps = await this.mergeTestExecutionSteps(executionId, stepResults);
+    await this.client.put(`/testexecutions/${executionId}/teststeps`, { steps });
+  }
+
+  // The API replaces the step results as a whole, so updates are merged into the current list
+  async mergeTestExecutionSteps(
+    executionId: string,
+    stepResults: Array<{
+      index: number;
+      status: ZephyrExecutionStatus;
+      actualResult?: string;
+      comment?: string;
+    }>
+  ): Promise<ZephyrTestStepUpdate[]> {
+    const existingSteps = await this.getTestExecutionSteps(executionId);
+    const updates = new Map(stepResults.map(s => [s.index, s]));
 
-    summary.passRate = summary.total > 0 ? (summary.passed / summary.total) * 100 : 0;
-    return summary;
+    const outOfRange = stepResults.filter(s => s.index > existingSteps.length);
+    if (outOfRange.length > 0) {
+      throw new Error(
+        `Step index ${outOfRange.map(s => s.index).join(', ')} out of range: execution ${executionId} has ${existingSteps.length} steps`
+      );
+    }
+
+    return existingSteps.map((existing, idx) => {
+      const update = updates.get(idx + 1);
+      return {
+        statusName: update ? EXECUTION_STATUS_NAMES[update.status] : existing.statusName,
+        actualResult: update?.actualResult ?? existing.actualResult ?? '',
+        comment: update?.comment ?? existing.comment,
+      };
+    });
+  }
+
+  async getTestExecutionSummary(cycleId: string): Promise<ZephyrExecutionSummary> {
+    return summarizeExecutions(await this.getTestCycleExecutions(cycleId));
   }
 
   async linkTestCaseToIssue(testCaseId: string, issueKey: string): Promise<void> {
@@ -161,10 +441,8 @@ export class ZephyrClient {
     const cycleResponse = await this.client.get(`/testcycles/${cycleId}`);
     const cycle = cycleResponse.data;
 
-    const executionsResponse = await this.client.get(`/testcycles/${cycleId}/testexecutions`);
-    const executions = executionsResponse.data.values || executionsResponse.data;
-
-    const summary = await this.getTestExecutionSummary(cycleId);
+    const executions = await this.getTestCycleExecutions(cycleId);
+    const summary = summarizeExecutions(executions);
 
     return {
       cycleId,
@@ -185,27 +463,27 @@ export class ZephyrClient {
     testCases: ZephyrTestCase[];
     total: number;
   }> {
-    console.log('Searching test cases for project:', projectKey, 'with query:', query);
+    logger.debug('Searching test cases', { projectKey, query });
     
     // First, let's try just getting all test cases for the project without search
     // This will help us understand if the issue is with the search or the endpoint
     if (!query) {
       try {
-        console.log('No query provided, fetching all test cases for project');
+        logger.debug('No query provided, fetching all test cases for project');
         const params = {
           projectKey,
           maxResults: limit,
         };
         
         const response = await this.client.get('/testcases', { params });
-        console.log('Got test cases without search, status:', response.status);
+        logger.debug('Got test cases without search', { status: response.status });
         
         return {
           testCases: response.data.values || response.data || [],
           total: response.data.total || (response.data.values ? response.data.values.length : 0) || 0,
         };
       } catch (error: any) {
-        console.error('Failed to get test cases without search:', error.response?.data);
+        logger.warn('Failed to get test cases without search', error);
       }
     }
     
@@ -214,7 +492,7 @@ export class ZephyrClient {
     
     // Try Option 1: Using JQL-like query with the /testcases endpoint
     try {
-      console.log('Trying Option 1: /testcases with JQL query');
+      logger.debug('Trying Option 1: /testcases with JQL query');
       const params: any = {
         projectKey,
         maxResults: limit,
@@ -228,25 +506,25 @@ export class ZephyrClient {
           // Extract the search term from "name ~ Login"
           const searchTerm = query.replace(/name\s*~\s*"?([^"]*)"?/, '$1').trim();
           params.query = searchTerm;
-          console.log('Extracted search term:', searchTerm);
+          logger.debug('Extracted search term', { searchTerm });
         } else {
           params.query = query;
         }
       }
       
       const response = await this.client.get('/testcases', { params });
-      console.log('Option 1 success, status:', response.status);
+      logger.debug('Option 1 success', { status: response.status });
       
       return {
         testCases: response.data.values || response.data || [],
         total: response.data.total || (response.data.values ? response.data.values.length : 0) || 0,
       };
     } catch (error1: any) {
-      console.error('Option 1 failed:', error1.response?.data);
+      logger.warn('Option 1 failed', error1);
       
       // Try Option 2: Using search endpoint if it exists
       try {
-        console.log('Trying Option 2: /testcases/search endpoint');
+        logger.debug('Trying Option 2: /testcases/search endpoint');
         const params: any = {
           projectKey,
           maxResults: limit,
@@ -257,14 +535,14 @@ export class ZephyrClient {
         }
         
         const response = await this.client.get('/testcases/search', { params });
-        console.log('Option 2 success, status:', response.status);
+        logger.debug('Option 2 success', { status: response.status });
         
         return {
           testCases: response.data.values || response.data || [],
           total: response.data.total || (response.data.values ? response.data.values.length : 0) || 0,
         };
       } catch (error2: any) {
-        console.error('Option 2 failed:', error2.response?.data);
+        logger.error('Option 2 failed', error2);
         
         // Both options failed, throw the original error
         throw error1;
@@ -285,7 +563,7 @@ export class ZephyrClient {
     componentId?: string;
     customFields?: Record<string, any>;
     testScript?: {
-      type: 'STEP_BY_STEP' | 'PLAIN_TEXT';
+      type: 'STEP_BY_STEP' | 'PLAIN_TEXT' | 'BDD';
       steps?: Array<{
         index: number;
         description: string;
@@ -336,26 +614,47 @@ export class ZephyrClient {
 
     // If test script has steps, create them separately
     if (data.testScript?.type === 'STEP_BY_STEP' && data.testScript.steps && data.testScript.steps.length > 0) {
-      console.log(`Test case ${testCase.key} created successfully. Now creating ${data.testScript.steps.length} test steps...`);
+      logger.debug(`Test case ${testCase.key} created successfully. Now creating ${data.testScript.steps.length} test steps...`);
       try {
         await this.createTestCaseSteps(testCase.key, data.testScript.steps);
-        console.log(`Successfully created all test steps for test case ${testCase.key}`);
+        logger.debug(`Successfully created all test steps for test case ${testCase.key}`);
       } catch (error: any) {
-        console.error('Failed to create test steps for test case', testCase.key, ':', {
+        logger.error(`Failed to create test steps for test case ${testCase.key}`, {
           error: error.message,
           response: error.response?.data,
           status: error.response?.status,
         });
         // Don't fail the test case creation if steps fail, but log the error clearly
-        console.warn('Test case was created but steps failed. You may need to add steps manually in the UI.');
+        logger.warn('Test case was created but steps failed. You may need to add steps manually in the UI.');
+      }
+    } else if ((data.testScript?.type === 'BDD' || data.testScript?.type === 'PLAIN_TEXT') && data.testScript.text) {
+      try {
+        await this.createTestScript(testCase.key, data.testScript.type, data.testScript.text);
+        logger.debug(`Created ${data.testScript.type} script for test case ${testCase.key}`);
+      } catch (error: any) {
+        logger.error(`Failed to create test script for test case ${testCase.key}`, {
+          error: error.message,
+          response: error.response?.data,
+          status: error.response?.status,
+        });
+        logger.warn('Test case was created but the script failed. You may need to add it manually in the UI.');
       }
     } else {
-      console.log(`Test case ${testCase.key} created without steps (no STEP_BY_STEP script provided)`);
+      logger.debug(`Test case ${testCase.key} created without steps (no STEP_BY_STEP script provided)`);
     }
 
     return testCase;
   }
 
+  async createTestScript(testCaseKey: string, type: 'PLAIN_TEXT' | 'BDD', text: string): Promise<void> {
+    const payload = {
+      type: type === 'BDD' ? 'bdd' : 'plain',
+      text,
+    };
+
+    await this.client.post(`/testcases/${encodeURIComponent(testCaseKey)}/testscript`, payload);
+  }
+
   // Keep signature as-is; only the payload changes.
   async createTestCaseSteps(
     testCaseKey: string,
@@ -396,10 +695,10 @@ export class ZephyrClient {
   async debugTestCaseSteps(testCaseKey: string): Promise<any> {
     try {
       const response = await this.client.get(`/testcases/${testCaseKey}/teststeps`);
-      console.log('Current test steps for test case:', testCaseKey, response.data);
+      logger.debug(`Current test steps for test case ${testCaseKey}`, response.data);
       return response.data;
     } catch (error: any) {
-      console.error('Failed to get test steps:', {
+      logger.error('Failed to get test steps', {
         testCaseKey,
         status: error.response?.status,
         statusText: error.response?.statusText,
@@ -412,19 +711,19 @@ export class ZephyrClient {
 
   async debugTestCaseInfo(testCaseKey: string): Promise<any> {
     try {
-      console.log(`Debugging test case info for: ${testCaseKey}`);
+      logger.debug(`Debugging test case info for: ${testCaseKey}`);
       const testCaseResponse = await this.client.get(`/testcases/${testCaseKey}`);
-      console.log('Test case details:', testCaseResponse.data);
+      logger.debug('Test case details', testCaseResponse.data);
       
       try {
         const stepsResponse = await this.client.get(`/testcases/${testCaseKey}/teststeps`);
-        console.log('Test steps details:', stepsResponse.data);
+        logger.debug('Test steps details', stepsResponse.data);
         return {
           testCase: testCaseResponse.data,
           steps: stepsResponse.data,
         };
       } catch (stepsError: any) {
-        console.log('Steps endpoint error:', stepsError.response?.data || stepsError.message);
+        logger.debug('Steps endpoint error', stepsError);
         return {
           testCase: testCaseResponse.data,
           steps: null,
@@ -432,7 +731,7 @@ export class ZephyrClient {
         };
       }
     } catch (error: any) {
-      console.error('Failed to get test case info:', error.response?.data || error.message);
+      logger.error('Failed to get test case info', error);
       throw error;
     }
   }
@@ -450,7 +749,7 @@ export class ZephyrClient {
     componentId?: string;
     customFields?: Record<string, any>;
     testScript?: {
-      type: 'STEP_BY_STEP' | 'PLAIN_TEXT';
+      type: 'STEP_BY_STEP' | 'PLAIN_TEXT' | 'BDD';
       steps?: Array<{
         index: number;
         description: string;
@@ -522,7 +821,7 @@ export class ZephyrClient {
 
   async updateTestCase(testCaseId: string, updates: any): Promise<ZephyrTestCase> {
     try {
-      console.log(`Updating test case ${testCaseId} with:`, JSON.stringify(updates, null, 2));
+      logger.debug(`Updating test case ${testCaseId}`, updates);
       
       // Prepare the payload for Zephyr API
       const payload: any = {};
@@ -542,7 +841,7 @@ export class ZephyrClient {
       
       // Update the test case basic fields
       const response = await this.client.put(`/testcases/${testCaseId}`, payload);
-      console.log(`Test case ${testCaseId} basic fields updated successfully`);
+      logger.debug(`Test case ${testCaseId} basic fields updated successfully`);
       
       // Handle test script/steps updates separately
       if (updates.testScript || updates.stepOperations) {
@@ -551,7 +850,7 @@ export class ZephyrClient {
       
       return response.data;
     } catch (error: any) {
-      console.error('Failed to update test case:', {
+      logger.error('Failed to update test case', {
         testCaseId,
         status: error.response?.status,
         message: error.response?.data?.message || error.message,
@@ -569,11 +868,17 @@ export class ZephyrClient {
     try {
       // If testScript is provided, it's a complete replacement
       if (testScript && testScript.type === 'STEP_BY_STEP' && testScript.steps) {
-        console.log(`Replacing all steps for test case ${testCaseId}`);
+        logger.debug(`Replacing all steps for test case ${testCaseId}`);
         await this.createTestCaseSteps(testCaseId, testScript.steps);
         return;
       }
       
+      if (testScript && (testScript.type === 'BDD' || testScript.type === 'PLAIN_TEXT') && testScript.text) {
+        logger.debug(`Replacing ${testScript.type} script for test case ${testCaseId}`);
+        await this.createTestScript(testCaseId, testScript.type, testScript.text);
+        return;
+      }
+      
       // Handle step operations (partial updates)
       if (stepOperations) {
         const { mode, steps, deleteIndexes } = stepOperations;
@@ -582,7 +887,7 @@ export class ZephyrClient {
           case 'REPLACE':
             // Replace all steps with new ones
             if (steps && steps.length > 0) {
-              console.log(`Replacing all steps for test case ${testCaseId}`);
+              logger.debug(`Replacing all steps for test case ${testCaseId}`);
               await this.createTestCaseSteps(testCaseId, steps);
             }
             break;
@@ -590,7 +895,7 @@ export class ZephyrClient {
           case 'APPEND':
             // Get existing steps and append new ones
             if (steps && steps.length > 0) {
-              console.log(`Appending ${steps.length} steps to test case ${testCaseId}`);
+              logger.debug(`Appending ${steps.length} steps to test case ${testCaseId}`);
               const existingSteps = await this.getTestCaseSteps(testCaseId);
               const maxIndex = existingSteps.length;
               const newSteps = steps.map((step: any, idx: number) => ({
@@ -607,7 +912,7 @@ export class ZephyrClient {
           case 'UPDATE':
             // Update specific steps by index
             if (steps && steps.length > 0) {
-              console.log(`Updating ${steps.length} steps in test case ${testCaseId}`);
+              logger.debug(`Updating ${steps.length} steps in test case ${testCaseId}`);
               const existingSteps = await this.getTestCaseSteps(testCaseId);
               
               // Create a map of updates by index
@@ -642,7 +947,7 @@ export class ZephyrClient {
           case 'DELETE':
             // Delete specific steps by index
             if (deleteIndexes && deleteIndexes.length > 0) {
-              console.log(`Deleting steps at indexes ${deleteIndexes} from test case ${testCaseId}`);
+              logger.debug(`Deleting steps at indexes ${deleteIndexes} from test case ${testCaseId}`);
               const existingSteps = await this.getTestCaseSteps(testCaseId);
               
               // Filter out steps to delete (convert to 0-based for array)
@@ -670,7 +975,7 @@ export class ZephyrClient {
         }
       }
     } catch (error: any) {
-      console.error('Failed to update test case steps:', {
+      logger.error('Failed to update test case steps', {
         testCaseId,
         error: error.message,
         response: error.response?.data,
@@ -682,26 +987,20 @@ export class ZephyrClient {
   async getTestCasesAdvanced(projectKey: string, limit = 100, offset = 0): Promise<{
     testCases: ZephyrTestCase[];
     total: number;
+    isLast: boolean;
+    nextStartAt: number | null;
   }> {
     try {
-      console.log('Getting test cases with advanced options for project:', projectKey);
-      const params = {
-        projectKey,
-        maxResults: limit,
-        startAt: offset,
-        // Request additional fields if supported
-        expand: 'folder,labels,component,priority,status',
-      };
+      logger.debug('Getting test cases with advanced options', { projectKey });
+      const page = await this.getPage<ZephyrTestCase>('/testcases', { projectKey, expand: TEST_CASE_EXPAND }, limit, offset);
+      const testCases: any[] = page.values;
       
-      const response = await this.client.get('/testcases', { params });
-      const testCases = response.data.values || response.data || [];
-      
-      console.log('Got test cases, count:', testCases.length);
+      logger.debug('Got test cases', { count: testCases.length });
       
       // Log first test case structure for debugging
       if (testCases.length > 0) {
         const sample = testCases[0];
-        console.log('Sample test case data structure:', {
+        logger.debug('Sample test case data structure', {
           key: sample.key,
           name: sample.name,
           hasFolder: !!sample.folder,
@@ -725,12 +1024,134 @@ export class ZephyrClient {
       }
       
       return {
-        testCases: testCases,
-        total: response.data.total || testCases.length,
+        testCases,
+        total: page.total,
+        isLast: page.isLast,
+        nextStartAt: getNextStartAt(page),
       };
     } catch (error: any) {
-      console.error('Failed to get test cases:', error.response?.data);
+      logger.error('Failed to get test cases', error);
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  async getAllTestCases(projectKey: string): Promise<ZephyrTestCase[]> {
+    return this.getAllPages<ZephyrTestCase>('/testcases', { projectKey, expand: TEST_CASE_EXPAND });
+  }
+
+  async getFolders(projectKey: string, folderType?: ZephyrFolderType, limit = 100, offset = 0): Promise<{
+    folders: ZephyrFolder[];
+    total: number;
+    isLast: boolean;
+    nextStartAt: number | null;
+  }> {
+    const page = await this.getPage<ZephyrFolder>('/folders', { projectKey, folderType }, limit, offset);
+    return {
+      folders: page.values,
+      total: page.total,
+      isLast: page.isLast,
+      nextStartAt: getNextStartAt(page),
+    };
+  }
+
+  async getAllFolders(projectKey: string, folderType?: ZephyrFolderType): Promise<ZephyrFolder[]> {
+    return this.getAllPages<ZephyrFolder>('/folders', { projectKey, folderType });
+  }
+
+  async getFolder(folderId: string): Promise<ZephyrFolder> {
+    const response = await this.client.get(`/folders/${folderId}`);
+    return response.data;
+  }
+
+  async createFolder(data: {
+    name: string;
+    projectKey: string;
+    folderType: ZephyrFolderType;
+    parentId?: number | null;
+  }): Promise<ZephyrFolder> {
+    const payload = {
+      name: data.name,
+      projectKey: data.projectKey,
+      folderType: data.folderType,
+      parentId: data.parentId ?? null,
+    };
+
+    const response = await this.client.post('/folders', payload);
+    // The create endpoint only returns { id, self }, so fetch the full folder
+    return this.getFolder(String(response.data.id));
+  }
+
+  async updateFolder(folderId: string, updates: {
+    name?: string;
+    parentId?: number | null;
+  }): Promise<ZephyrFolder> {
+    const current = await this.getFolder(folderId);
+
+    // A folder cannot move into itself or below one of its own subfolders
+    if (updates.parentId !== undefined && updates.parentId !== null && updates.parentId !== current.parentId) {
+      const ancestors = new Set<number>();
+      let ancestorId: number | null = updates.parentId;
+      while (ancestorId !== null && !ancestors.has(ancestorId)) {
+        if (ancestorId === current.id) {
+          throw new Error(`Cannot move folder "${current.name}" (${current.id}) into itself or one of its subfolders`);
+        }
+        ancestors.add(ancestorId);
+        ancestorId = (await this.getFolder(String(ancestorId))).parentId;
+      }
+    }
+
+    const payload = {
+      id: current.id,
+      name: updates.name ?? current.name,
+      parentId: updates.parentId !== undefined ? updates.parentId : current.parentId,
+      index: current.index,
+      folderType: current.folderType,
+    };
+
+    await this.client.put(`/folders/${folderId}`, payload);
+    return this.getFolder(folderId);
+  }
+
+  async deleteFolder(folderId: string): Promise<void> {
+    await this.client.delete(`/folders/${folderId}`);
+  }
+
+  /**
+   * Resolve a slash separated folder path (e.g. "/Regression/API") to a folder.
+   * Segments are matched by exact name first, then case-insensitively.
+   * When createMissing is set, missing segments are created on the way down.
+   */
+  async resolveFolderPath(
+    projectKey: string,
+    folderPath: string,
+    folderType: ZephyrFolderType = 'TEST_CASE',
+    createMissing = false
+  ): Promise<ZephyrFolder> {
+    const segments = folderPath.split('/').map(s => s.trim()).filter(Boolean);
+    if (segments.length === 0) {
+      throw new Error(`Invalid folder path "${folderPath}". Use a path like /Regression/API`);
+    }
+
+    const folders = await this.getAllFolders(projectKey, folderType);
+    let parentId: number | null = null;
+    let current: ZephyrFolder | undefined;
+
+    for (const segment of segments) {
+      const siblings = folders.filter(f => (f.parentId ?? null) === parentId);
+      current = siblings.find(f => f.name === segment)
+        || siblings.find(f => f.name.toLowerCase() === segment.toLowerCase());
+
+      if (!current) {
+        if (!createMissing) {
+          throw new Error(`Folder "${segment}" not found while resolving path "${folderPath}" in project ${projectKey}`);
+        }
+        current = await this.createFolder({ name: segment, projectKey, folderType, parentId });
+        folders.push(current);
+      }
+
+      parentId = current.id;
+    }
+
+    return current!;
+  }
+}
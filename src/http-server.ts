@@ -0,0 +1,178 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ServerConfig } from './utils/config.js';
+import { createLogger } from './utils/logger.js';
+
+const logger = createLogger('http');
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+};
+
+const sendJsonRpcError = (res: ServerResponse, status: number, message: string) => {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+};
+
+const isAuthorized = (req: IncomingMessage, tokens: string[]): boolean => {
+  if (tokens.length === 0) {
+    return true;
+  }
+  const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+  const presented = Buffer.from(match[1].trim());
+  return tokens.some(token => {
+    const expected = Buffer.from(token);
+    return expected.length === presented.length && timingSafeEqual(expected, presented);
+  });
+};
+
+/**
+ * Serve MCP over HTTP. Each client session gets its own server instance:
+ * - /mcp speaks the Streamable HTTP transport (POST, GET and DELETE)
+ * - /sse and /messages keep older SSE-only clients working
+ * - /health reports liveness without authentication
+ */
+export const startHttpServer = async (
+  createServer: () => Server,
+  config: ServerConfig
+): Promise<void> => {
+  const tokens = config.MCP_AUTH_TOKENS;
+  if (tokens.length === 0) {
+    if (!LOOPBACK_HOSTS.includes(config.MCP_HTTP_HOST)) {
+      throw new Error(`MCP_AUTH_TOKENS must be set to listen on ${config.MCP_HTTP_HOST}`);
+    }
+    logger.warn('MCP_AUTH_TOKENS is not set, HTTP clients are not authenticated');
+  }
+  if (config.MCP_FILE_ROOTS.length === 0) {
+    logger.info('MCP_FILE_ROOTS is not set, tools will not read files named by HTTP clients');
+  }
+
+  const sessions = new Map<string, Session>();
+
+  const closeSession = (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (session) {
+      sessions.delete(sessionId);
+      session.server.close().catch(() => undefined);
+    }
+  };
+
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { server, transport });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        closeSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (res: ServerResponse) => {
+    const server = createServer();
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, { server, transport });
+    res.on('close', () => closeSession(transport.sessionId));
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const session = sessions.get(url.searchParams.get('sessionId') || '');
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+        return;
+      }
+
+      if (!isAuthorized(req, tokens)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonRpcError(res, 401, 'Unauthorized');
+        return;
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnect(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`HTTP ${req.method} ${url.pathname} failed`, error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, errorMessage);
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.MCP_HTTP_PORT, config.MCP_HTTP_HOST, resolve);
+  });
+  logger.info(`MCP HTTP server listening on http://${config.MCP_HTTP_HOST}:${config.MCP_HTTP_PORT}/mcp`);
+};
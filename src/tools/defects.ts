@@ -0,0 +1,196 @@
+import { ZephyrClient } from '../clients/zephyr-client.js';
+import { JiraClient } from '../clients/jira-client.js';
+import { getExecutionTestCaseKey } from '../utils/executions.js';
+import { createLogger } from '../utils/logger.js';
+import {
+  createDefectFromExecutionSchema,
+  CreateDefectFromExecutionInput,
+} from '../utils/validation.js';
+
+const logger = createLogger('defects');
+
+let zephyrClient: ZephyrClient | null = null;
+let jiraClient: JiraClient | null = null;
+
+const getZephyrClient = (): ZephyrClient => {
+  if (!zephyrClient) {
+    zephyrClient = new ZephyrClient();
+  }
+  return zephyrClient;
+};
+
+const getJiraClient = (): JiraClient => {
+  if (!jiraClient) {
+    jiraClient = new JiraClient();
+  }
+  return jiraClient;
+};
+
+const buildDefectDescription = (details: {
+  testCaseKey: string;
+  testCaseName: string;
+  executionKey: string;
+  cycleName?: string;
+  environment?: string;
+  comment?: string;
+  failedSteps: Array<{ index: number; description?: string; expectedResult?: string; actualResult?: string }>;
+  additionalDetails?: string;
+}): string => {
+  const lines = [
+    `Test case ${details.testCaseKey} (${details.testCaseName}) failed in execution ${details.executionKey}.`,
+    '',
+    `* Test cycle: ${details.cycleName || 'Unknown'}`,
+    `* Environment: ${details.environment || 'Not specified'}`,
+  ];
+
+  if (details.failedSteps.length > 0) {
+    lines.push('', '## Failed steps');
+    for (const step of details.failedSteps) {
+      lines.push(`${step.index}. ${step.description || 'Step'}`);
+      if (step.expectedResult) lines.push(`   * Expected: ${step.expectedResult}`);
+      if (step.actualResult) lines.push(`   * Actual: ${step.actualResult}`);
+    }
+  }
+
+  if (details.comment) {
+    lines.push('', '## Execution comment', details.comment);
+  }
+
+  if (details.additionalDetails) {
+    lines.push('', '## Additional details', details.additionalDetails);
+  }
+
+  return lines.join('\n');
+};
+
+const fileDefectForExecution = async (input: CreateDefectFromExecutionInput) => {
+  const zephyr = getZephyrClient();
+  const jira = getJiraClient();
+
+  const execution = await zephyr.getTestExecution(input.executionId);
+  const testCaseKey = getExecutionTestCaseKey(execution) || execution.testCaseId;
+  if (!testCaseKey) {
+    throw new Error(`Could not determine the test case of execution ${input.executionId}`);
+  }
+  const testCase = await zephyr.getTestCase(testCaseKey);
+  const executionKey = execution.key || input.executionId;
+
+  // Open defects already linked to the test case are reused instead of filing duplicates
+  const linkedIssueIds = (testCase.links?.issues || []).map(link => String(link.issueId));
+  if (input.deduplicate && linkedIssueIds.length > 0) {
+    const jql = `id in (${linkedIssueIds.join(',')}) AND issuetype = "${input.issueType}" AND statusCategory != Done`;
+    const openDefects = await jira.searchIssues(jql, ['summary', 'status'], 10);
+    const existing = openDefects.issues[0];
+    if (existing) {
+      await zephyr.linkTestExecutionToIssue(executionKey, existing.id);
+      return {
+        created: false,
+        issueKey: existing.key,
+        summary: existing.fields?.summary,
+        duplicateOf: existing.key,
+        message: `Linked execution ${executionKey} to existing open defect ${existing.key}`,
+      };
+    }
+  }
+
+  const cycleId = execution.testCycle?.id !== undefined ? String(execution.testCycle.id) : execution.cycleId;
+  let cycleName: string | undefined;
+  if (cycleId) {
+    try {
+      cycleName = (await zephyr.getTestCycle(cycleId)).name;
+    } catch (error) {
+      logger.warn(`Failed to get test cycle ${cycleId}`, error);
+    }
+  }
+
+  let failedSteps: Array<{ index: number; description?: string; expectedResult?: string; actualResult?: string }> = [];
+  try {
+    const steps = await zephyr.getTestExecutionSteps(executionKey);
+    failedSteps = steps
+      .map((step, idx) => ({ ...step, index: step.index ?? idx + 1 }))
+      .filter(step => /fail/i.test(step.statusName || ''))
+      .map(step => ({
+        index: step.index,
+        description: step.description,
+        expectedResult: step.expectedResult,
+        actualResult: step.actualResult,
+      }));
+  } catch (error) {
+    logger.warn(`Failed to get step results for ${executionKey}`, error);
+  }
+
+  const issue = await jira.createIssue({
+    projectKey: input.projectKey || testCaseKey.split('-T')[0],
+    summary: input.summary || `Test failed: ${testCase.name}`,
+    description: buildDefectDescription({
+      testCaseKey,
+      testCaseName: testCase.name,
+      executionKey,
+      cycleName,
+      environment: execution.environment,
+      comment: execution.comment,
+      failedSteps,
+      additionalDetails: input.additionalDetails,
+    }),
+    issueType: input.issueType,
+    priority: input.priority,
+    assignee: input.assignee,
+    labels: input.labels,
+    components: input.components,
+  });
+
+  // The defect exists from here on, so link failures become warnings rather than errors
+  const warnings: string[] = [];
+  const tryLink = async (description: string, link: () => Promise<unknown>) => {
+    try {
+      await link();
+    } catch (error: any) {
+      logger.warn(`Failed to link ${issue.key} to ${description}`, error);
+      warnings.push(`Failed to link ${issue.key} to ${description}: ${error.response?.data?.message || error.message}`);
+    }
+  };
+
+  await tryLink(`execution ${executionKey}`, () => zephyr.linkTestExecutionToIssue(executionKey, issue.id));
+  await tryLink(`test case ${testCaseKey}`, () => zephyr.linkTestCaseToIssue(testCaseKey, issue.key));
+
+  // Relate the defect to the issues the test case covers; earlier defects are linked there too, so skip them
+  const relatedIssues = [];
+  for (const issueId of linkedIssueIds) {
+    try {
+      const related = await jira.getIssue(issueId, ['summary', 'issuetype']);
+      if (related.fields?.issuetype?.name?.toLowerCase() === input.issueType.toLowerCase()) {
+        continue;
+      }
+      await jira.linkIssues(issue.key, related.key, input.linkType);
+      relatedIssues.push(related.key);
+    } catch (error) {
+      logger.warn(`Failed to link ${issue.key} to issue ${issueId}`, error);
+    }
+  }
+
+  return {
+    created: true,
+    issueKey: issue.key,
+    summary: issue.fields?.summary,
+    linkedIssues: relatedIssues,
+    failedSteps: failedSteps.length,
+    warnings,
+    message: `Created defect ${issue.key} for execution ${executionKey}`,
+  };
+};
+
+export const createDefectFromExecution = async (input: CreateDefectFromExecutionInput) => {
+  const validatedInput = createDefectFromExecutionSchema.parse(input);
+
+  try {
+    return {
+      success: true,
+      data: await fileDefectForExecution(validatedInput),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.errorMessages?.[0] || error.response?.data?.message || error.message,
+    };
+  }
+};
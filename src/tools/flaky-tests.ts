@@ -0,0 +1,140 @@
+import { ZephyrClient } from '../clients/zephyr-client.js';
+import { ZephyrTestExecution } from '../types/zephyr-types.js';
+import { getCycleDate, getExecutionDate, getExecutionTestCaseKey, normalizeStatus } from '../utils/executions.js';
+import {
+  analyzeFlakyTestsSchema,
+  AnalyzeFlakyTestsInput,
+} from '../utils/validation.js';
+
+let zephyrClient: ZephyrClient | null = null;
+
+const getZephyrClient = (): ZephyrClient => {
+  if (!zephyrClient) {
+    zephyrClient = new ZephyrClient();
+  }
+  return zephyrClient;
+};
+
+interface FlakyTestCase {
+  testCaseKey: string;
+  runs: number;
+  passed: number;
+  failed: number;
+  flips: number;
+  flipRate: number;
+  flakinessScore: number;
+  history: Array<{ cycleKey: string; executionKey: string; status: string; executedOn?: string }>;
+  labelApplied?: boolean;
+  labelError?: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Score a PASS/FAIL history from 0 to 100. The flip rate (share of
+ * consecutive runs that changed outcome) weighs most; the balance between
+ * passes and failures separates flaky tests from ones that broke once.
+ */
+const scoreHistory = (statuses: string[]) => {
+  const failed = statuses.filter(status => status === 'FAIL').length;
+  let flips = 0;
+  for (let i = 1; i < statuses.length; i++) {
+    if (statuses[i] !== statuses[i - 1]) flips++;
+  }
+  const flipRate = statuses.length > 1 ? flips / (statuses.length - 1) : 0;
+  const balance = 1 - Math.abs((2 * failed) / statuses.length - 1);
+  return {
+    passed: statuses.length - failed,
+    failed,
+    flips,
+    flipRate: round(flipRate),
+    flakinessScore: Math.round(100 * (0.7 * flipRate + 0.3 * balance)),
+  };
+};
+
+export const analyzeFlakyTests = async (input: AnalyzeFlakyTestsInput) => {
+  const validatedInput = analyzeFlakyTestsSchema.parse(input);
+
+  try {
+    const zephyr = getZephyrClient();
+    const cycles = (await zephyr.getAllTestCycles(validatedInput.projectKey))
+      .sort((a, b) => getCycleDate(a).localeCompare(getCycleDate(b)) || a.key.localeCompare(b.key, undefined, { numeric: true }))
+      .slice(-validatedInput.maxCycles);
+
+    const warnings: string[] = [];
+    const histories = new Map<string, FlakyTestCase['history']>();
+
+    // Cycles are read oldest first so each history is in run order
+    for (const cycle of cycles) {
+      let executions: ZephyrTestExecution[];
+      try {
+        executions = await zephyr.getAllTestExecutions({ projectKey: validatedInput.projectKey, testCycle: cycle.key });
+      } catch (error: any) {
+        warnings.push(`Failed to load executions of ${cycle.key}: ${error.response?.data?.message || error.message}`);
+        continue;
+      }
+
+      const ordered = executions
+        .filter(execution => ['PASS', 'FAIL'].includes(normalizeStatus(execution.status)))
+        .sort((a, b) => (getExecutionDate(a) || '').localeCompare(getExecutionDate(b) || ''));
+      for (const execution of ordered) {
+        const testCaseKey = getExecutionTestCaseKey(execution);
+        if (!testCaseKey) continue;
+        const history = histories.get(testCaseKey) || [];
+        history.push({
+          cycleKey: cycle.key,
+          executionKey: execution.key,
+          status: normalizeStatus(execution.status),
+          executedOn: getExecutionDate(execution),
+        });
+        histories.set(testCaseKey, history);
+      }
+    }
+
+    const flakyTests: FlakyTestCase[] = Array.from(histories.entries())
+      .filter(([, history]) => history.length >= validatedInput.minExecutions)
+      .map(([testCaseKey, history]) => ({
+        testCaseKey,
+        runs: history.length,
+        ...scoreHistory(history.map(run => run.status)),
+        history,
+      }))
+      .filter(testCase => testCase.flips > 0 && testCase.flakinessScore >= validatedInput.minScore)
+      .sort((a, b) => b.flakinessScore - a.flakinessScore || b.flips - a.flips)
+      .slice(0, validatedInput.limit);
+
+    if (validatedInput.applyLabel) {
+      for (const testCase of flakyTests) {
+        try {
+          const current = await zephyr.getTestCase(testCase.testCaseKey);
+          const labels = current.labels || [];
+          if (!labels.includes(validatedInput.label)) {
+            await zephyr.updateTestCase(testCase.testCaseKey, { labels: [...labels, validatedInput.label] });
+          }
+          testCase.labelApplied = true;
+        } catch (error: any) {
+          testCase.labelApplied = false;
+          testCase.labelError = error.response?.data?.message || error.message;
+        }
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        projectKey: validatedInput.projectKey,
+        cyclesAnalyzed: cycles.map(cycle => cycle.key),
+        testCasesAnalyzed: histories.size,
+        flakyTests,
+        warnings,
+        message: `Found ${flakyTests.length} flaky test case(s) in ${cycles.length} cycle(s)`
+          + (validatedInput.applyLabel ? `, labelled ${flakyTests.filter(t => t.labelApplied).length} as "${validatedInput.label}"` : ''),
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
@@ -0,0 +1,251 @@
+import { ZephyrClient } from '../clients/zephyr-client.js';
+import { ZephyrFolder } from '../types/zephyr-types.js';
+import {
+  listFoldersSchema,
+  getFolderTreeSchema,
+  resolveFolderPathSchema,
+  createFolderSchema,
+  updateFolderSchema,
+  deleteFolderSchema,
+  ListFoldersInput,
+  GetFolderTreeInput,
+  ResolveFolderPathInput,
+  CreateFolderInput,
+  UpdateFolderInput,
+  DeleteFolderInput,
+} from '../utils/validation.js';
+
+let zephyrClient: ZephyrClient | null = null;
+
+const getZephyrClient = (): ZephyrClient => {
+  if (!zephyrClient) {
+    zephyrClient = new ZephyrClient();
+  }
+  return zephyrClient;
+};
+
+interface FolderTreeNode {
+  id: number;
+  name: string;
+  path: string;
+  folderType: string;
+  children: FolderTreeNode[];
+}
+
+const buildFolderPaths = (folders: ZephyrFolder[]): Map<number, string> => {
+  const byId = new Map(folders.map(f => [f.id, f]));
+  const paths = new Map<number, string>();
+
+  const pathOf = (folder: ZephyrFolder): string => {
+    const cached = paths.get(folder.id);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const parent = folder.parentId !== null ? byId.get(folder.parentId) : undefined;
+    const path = `${parent ? pathOf(parent) : ''}/${folder.name}`;
+    paths.set(folder.id, path);
+    return path;
+  };
+
+  folders.forEach(pathOf);
+  return paths;
+};
+
+const buildFolderTree = (folders: ZephyrFolder[]): FolderTreeNode[] => {
+  const paths = buildFolderPaths(folders);
+  const nodes = new Map<number, FolderTreeNode>(folders.map(f => [f.id, {
+    id: f.id,
+    name: f.name,
+    path: paths.get(f.id) || `/${f.name}`,
+    folderType: f.folderType,
+    children: [],
+  }]));
+
+  const roots: FolderTreeNode[] = [];
+  for (const folder of [...folders].sort((a, b) => a.index - b.index)) {
+    const node = nodes.get(folder.id)!;
+    const parent = folder.parentId !== null ? nodes.get(folder.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+};
+
+const formatFolder = (folder: ZephyrFolder, path?: string) => ({
+  id: folder.id,
+  name: folder.name,
+  path,
+  parentId: folder.parentId,
+  folderType: folder.folderType,
+  index: folder.index,
+});
+
+export const listFolders = async (input: ListFoldersInput) => {
+  const validatedInput = listFoldersSchema.parse(input);
+
+  try {
+    const folders = await getZephyrClient().getAllFolders(
+      validatedInput.projectKey,
+      validatedInput.folderType
+    );
+    const paths = buildFolderPaths(folders);
+
+    return {
+      success: true,
+      data: {
+        total: folders.length,
+        folders: folders.map(folder => formatFolder(folder, paths.get(folder.id))),
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+export const getFolderTree = async (input: GetFolderTreeInput) => {
+  const validatedInput = getFolderTreeSchema.parse(input);
+
+  try {
+    const folders = await getZephyrClient().getAllFolders(
+      validatedInput.projectKey,
+      validatedInput.folderType
+    );
+
+    return {
+      success: true,
+      data: {
+        projectKey: validatedInput.projectKey,
+        folderType: validatedInput.folderType,
+        totalFolders: folders.length,
+        tree: buildFolderTree(folders),
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+export const resolveFolderPath = async (input: ResolveFolderPathInput) => {
+  const validatedInput = resolveFolderPathSchema.parse(input);
+
+  try {
+    const folder = await getZephyrClient().resolveFolderPath(
+      validatedInput.projectKey,
+      validatedInput.folderPath,
+      validatedInput.folderType,
+      validatedInput.createMissing
+    );
+
+    return {
+      success: true,
+      data: formatFolder(folder, validatedInput.folderPath),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+export const createFolder = async (input: CreateFolderInput) => {
+  const validatedInput = createFolderSchema.parse(input);
+
+  try {
+    const zephyr = getZephyrClient();
+
+    let parentId: number | null = validatedInput.parentId ? Number(validatedInput.parentId) : null;
+    if (validatedInput.parentPath) {
+      const parent = await zephyr.resolveFolderPath(
+        validatedInput.projectKey,
+        validatedInput.parentPath,
+        validatedInput.folderType
+      );
+      parentId = parent.id;
+    }
+
+    const folder = await zephyr.createFolder({
+      name: validatedInput.name,
+      projectKey: validatedInput.projectKey,
+      folderType: validatedInput.folderType,
+      parentId,
+    });
+
+    return {
+      success: true,
+      data: formatFolder(folder),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+export const updateFolder = async (input: UpdateFolderInput) => {
+  const validatedInput = updateFolderSchema.parse(input);
+
+  try {
+    const zephyr = getZephyrClient();
+
+    let parentId: number | null | undefined;
+    if (validatedInput.parentPath && validatedInput.projectKey) {
+      const current = await zephyr.getFolder(validatedInput.folderId);
+      const parent = await zephyr.resolveFolderPath(
+        validatedInput.projectKey,
+        validatedInput.parentPath,
+        current.folderType
+      );
+      parentId = parent.id;
+    } else if (validatedInput.parentId !== undefined) {
+      parentId = validatedInput.parentId === null ? null : Number(validatedInput.parentId);
+    }
+
+    const folder = await zephyr.updateFolder(validatedInput.folderId, {
+      name: validatedInput.name,
+      parentId,
+    });
+
+    return {
+      success: true,
+      data: formatFolder(folder),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+export const deleteFolder = async (input: DeleteFolderInput) => {
+  const validatedInput = deleteFolderSchema.parse(input);
+
+  try {
+    await getZephyrClient().deleteFolder(validatedInput.folderId);
+
+    return {
+      success: true,
+      data: {
+        folderId: validatedInput.folderId,
+        message: `Folder ${validatedInput.folderId} deleted successfully`,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
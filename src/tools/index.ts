@@ -0,0 +1,390 @@
+import { defineTool, ToolDefinition } from '../utils/tool-registry.js';
+import {
+  readJiraIssue,
+  searchJiraIssues,
+  getJiraProject,
+  getJiraProjectVersions,
+  createJiraIssue,
+  linkJiraIssues,
+} from './jira-issues.js';
+import {
+  createTestPlan,
+  listTestPlans,
+  getTestPlan,
+  updateTestPlan,
+  linkToTestPlan,
+  unlinkFromTestPlan,
+} from './test-plans.js';
+import {
+  createTestCycle,
+  listTestCycles,
+  getTestCycle,
+  updateTestCycle,
+  deleteTestCycle,
+  createRerunCycle,
+} from './test-cycles.js';
+import {
+  executeTest,
+  addTestCasesToCycle,
+  getTestExecutionStatus,
+  getTestCaseExecutions,
+  linkTestsToIssues,
+  generateTestReport,
+} from './test-execution.js';
+import {
+  createTestCase,
+  getTestCase,
+  debugTestCaseSteps,
+  debugTestCaseInfo,
+  createMultipleTestCases,
+  getTestCases,
+  updateTestCase,
+} from './test-cases.js';
+import { generateTestCasesFromIssue } from './test-case-generation.js';
+import { createDefectFromExecution } from './defects.js';
+import { importJunitResults, importCucumberResults, importFeatureFiles } from './result-import.js';
+import { generateTraceabilityMatrix } from './traceability.js';
+import { generateTestPlanReport, generateTrendReport, compareTestCycles } from './reports.js';
+import { analyzeFlakyTests } from './flaky-tests.js';
+import {
+  listFolders,
+  getFolderTree,
+  resolveFolderPath,
+  createFolder,
+  updateFolder,
+  deleteFolder,
+} from './folders.js';
+import {
+  readJiraIssueSchema,
+  searchJiraIssuesSchema,
+  getJiraProjectSchema,
+  getJiraProjectVersionsSchema,
+  createJiraIssueSchema,
+  linkJiraIssuesSchema,
+  createTestPlanSchema,
+  listTestPlansSchema,
+  getTestPlanSchema,
+  updateTestPlanSchema,
+  linkToTestPlanSchema,
+  unlinkFromTestPlanSchema,
+  createTestCycleSchema,
+  listTestCyclesSchema,
+  getTestCycleSchema,
+  updateTestCycleSchema,
+  deleteTestCycleSchema,
+  createRerunCycleSchema,
+  executeTestSchema,
+  addTestCasesToCycleSchema,
+  createDefectFromExecutionSchema,
+  generateTraceabilityMatrixSchema,
+  getTestExecutionStatusSchema,
+  getTestCaseExecutionsSchema,
+  linkTestsToIssuesSchema,
+  generateTestReportSchema,
+  generateTestPlanReportSchema,
+  generateTrendReportSchema,
+  compareTestCyclesSchema,
+  analyzeFlakyTestsSchema,
+  createTestCaseSchema,
+  getTestCaseSchema,
+  createMultipleTestCasesSchema,
+  generateTestCasesFromIssueSchema,
+  updateTestCaseSchema,
+  getTestCasesSchema,
+  importJunitResultsSchema,
+  importCucumberResultsSchema,
+  importFeatureFilesSchema,
+  listFoldersSchema,
+  getFolderTreeSchema,
+  resolveFolderPathSchema,
+  createFolderSchema,
+  updateFolderSchema,
+  deleteFolderSchema,
+} from '../utils/validation.js';
+
+// Listed in the order clients see them
+export const TOOL_DEFINITIONS: ToolDefinition[] = [
+  defineTool({
+    name: 'read_jira_issue',
+    description: 'Read JIRA issue details and metadata',
+    schema: readJiraIssueSchema,
+    handler: readJiraIssue,
+  }),
+  defineTool({
+    name: 'search_jira_issues',
+    description: 'Search JIRA issues with JQL (paged with startAt/maxResults)',
+    schema: searchJiraIssuesSchema,
+    handler: searchJiraIssues,
+  }),
+  defineTool({
+    name: 'get_jira_project',
+    description: 'Get JIRA project details',
+    schema: getJiraProjectSchema,
+    handler: getJiraProject,
+  }),
+  defineTool({
+    name: 'get_jira_project_versions',
+    description: 'List the versions of a JIRA project, or look one up by name to get its ID (e.g. for create_test_cycle)',
+    schema: getJiraProjectVersionsSchema,
+    handler: getJiraProjectVersions,
+  }),
+  defineTool({
+    name: 'create_jira_issue',
+    description: 'Create a JIRA issue',
+    schema: createJiraIssueSchema,
+    handler: createJiraIssue,
+  }),
+  defineTool({
+    name: 'link_jira_issues',
+    description: 'Link two JIRA issues',
+    schema: linkJiraIssuesSchema,
+    handler: linkJiraIssues,
+  }),
+  defineTool({
+    name: 'create_test_plan',
+    description: 'Create a new test plan in Zephyr',
+    schema: createTestPlanSchema,
+    handler: createTestPlan,
+  }),
+  defineTool({
+    name: 'list_test_plans',
+    description: 'List existing test plans',
+    schema: listTestPlansSchema,
+    handler: listTestPlans,
+  }),
+  defineTool({
+    name: 'get_test_plan',
+    description: 'Get a test plan by ID or key with its linked test cycles and their execution summaries rolled up',
+    schema: getTestPlanSchema,
+    handler: getTestPlan,
+  }),
+  defineTool({
+    name: 'update_test_plan',
+    description: 'Update a test plan (name, objective, status, folder, owner, labels)',
+    schema: updateTestPlanSchema,
+    handler: updateTestPlan,
+  }),
+  defineTool({
+    name: 'link_to_test_plan',
+    description: 'Link test cycles and JIRA issues to a test plan',
+    schema: linkToTestPlanSchema,
+    handler: linkToTestPlan,
+  }),
+  defineTool({
+    name: 'unlink_from_test_plan',
+    description: 'Remove links between a test plan and test cycles or JIRA issues',
+    schema: unlinkFromTestPlanSchema,
+    handler: unlinkFromTestPlan,
+  }),
+  defineTool({
+    name: 'create_test_cycle',
+    description: 'Create a new test execution cycle',
+    schema: createTestCycleSchema,
+    handler: createTestCycle,
+  }),
+  defineTool({
+    name: 'list_test_cycles',
+    description: 'List existing test cycles with execution status',
+    schema: listTestCyclesSchema,
+    handler: listTestCycles,
+  }),
+  defineTool({
+    name: 'get_test_cycle',
+    description: 'Get a test cycle by ID or key',
+    schema: getTestCycleSchema,
+    handler: getTestCycle,
+  }),
+  defineTool({
+    name: 'update_test_cycle',
+    description: 'Update a test cycle (name, description, status, planned dates, folder, owner)',
+    schema: updateTestCycleSchema,
+    handler: updateTestCycle,
+  }),
+  defineTool({
+    name: 'delete_test_cycle',
+    description: 'Delete a test cycle. Requires confirm: true',
+    schema: deleteTestCycleSchema,
+    handler: deleteTestCycle,
+  }),
+  defineTool({
+    name: 'create_rerun_cycle',
+    description: 'Create a new test cycle containing the failed and blocked tests of an existing cycle, keeping each execution\'s environment and assignee and linking back to the source cycle',
+    schema: createRerunCycleSchema,
+    handler: createRerunCycle,
+  }),
+  defineTool({
+    name: 'execute_test',
+    description: 'Update test execution results, optionally per step',
+    schema: executeTestSchema,
+    handler: executeTest,
+  }),
+  defineTool({
+    name: 'add_test_cases_to_cycle',
+    description: 'Add test cases to a test cycle by creating NOT_EXECUTED executions. Select test cases by key, by get_test_cases filters or by folder.',
+    schema: addTestCasesToCycleSchema,
+    handler: addTestCasesToCycle,
+  }),
+  defineTool({
+    name: 'create_defect_from_execution',
+    description: 'File a Jira defect for a failed test execution, pre-filled with the test case, failed steps, comment, environment and cycle, and link it to the execution. Reuses an open defect already linked to the test case.',
+    schema: createDefectFromExecutionSchema,
+    handler: createDefectFromExecution,
+  }),
+  defineTool({
+    name: 'generate_traceability_matrix',
+    description: 'Build a requirements traceability matrix: Jira requirements, the Zephyr test cases linked to them and each test case\'s latest execution status, highlighting uncovered, failing and never-executed requirements',
+    schema: generateTraceabilityMatrixSchema,
+    handler: generateTraceabilityMatrix,
+  }),
+  defineTool({
+    name: 'get_test_execution_status',
+    description: 'Get test execution progress and statistics',
+    schema: getTestExecutionStatusSchema,
+    handler: getTestExecutionStatus,
+  }),
+  defineTool({
+    name: 'get_test_case_executions',
+    description: 'List every execution of a test case across cycles (newest first) with status, executor, environment, date, comment and defects, plus a timeline summary of when it last passed and failed',
+    schema: getTestCaseExecutionsSchema,
+    handler: getTestCaseExecutions,
+  }),
+  defineTool({
+    name: 'link_tests_to_issues',
+    description: 'Associate test cases with JIRA issues',
+    schema: linkTestsToIssuesSchema,
+    handler: linkTestsToIssues,
+  }),
+  defineTool({
+    name: 'generate_test_report',
+    description: 'Generate test execution report',
+    schema: generateTestReportSchema,
+    handler: generateTestReport,
+  }),
+  defineTool({
+    name: 'generate_test_plan_report',
+    description: 'Generate a release report for a test plan across all linked test cycles: latest result per test case, per-cycle and overall pass rates, blocked items with reasons and open defects',
+    schema: generateTestPlanReportSchema,
+    handler: generateTestPlanReport,
+  }),
+  defineTool({
+    name: 'generate_trend_report',
+    description: 'Show how quality changes across test cycles: pass rate, failure count and execution velocity per cycle, selected by version, cycle name pattern or date range, with sparkline charts',
+    schema: generateTrendReportSchema,
+    handler: generateTrendReport,
+  }),
+  defineTool({
+    name: 'compare_test_cycles',
+    description: 'Diff two test cycles (e.g., last release vs. release candidate) by test case: newly failing, newly passing, still failing, added and removed tests and the pass rate delta, with a Markdown summary for release notes',
+    schema: compareTestCyclesSchema,
+    handler: compareTestCycles,
+  }),
+  defineTool({
+    name: 'analyze_flaky_tests',
+    description: 'Find test cases that alternate between PASS and FAIL across recent test cycles, ranked by flip rate and flakiness score, optionally labelling them',
+    schema: analyzeFlakyTestsSchema,
+    handler: analyzeFlakyTests,
+  }),
+  defineTool({
+    name: 'create_test_case',
+    description: 'Create a new test case in Zephyr',
+    schema: createTestCaseSchema,
+    handler: createTestCase,
+  }),
+  defineTool({
+    name: 'get_test_case',
+    description: 'Get detailed information about a specific test case when you already know its exact ID (e.g., "CSRP-T123"). Do NOT use this for searching or listing test cases.',
+    schema: getTestCaseSchema,
+    errorHint: 'get_test_case requires an exact test case ID (e.g., "CSRP-T123"). To search or list test cases, please use the get_test_cases tool instead.',
+    handler: getTestCase,
+  }),
+  defineTool({
+    name: 'debug_test_case_steps',
+    description: 'Debug: Get test steps for a specific test case',
+    schema: getTestCaseSchema,
+    handler: debugTestCaseSteps,
+  }),
+  defineTool({
+    name: 'debug_test_case_info',
+    description: 'Debug: Get complete test case information including steps details',
+    schema: getTestCaseSchema,
+    handler: debugTestCaseInfo,
+  }),
+  defineTool({
+    name: 'create_multiple_test_cases',
+    description: 'Create multiple test cases in Zephyr at once',
+    schema: createMultipleTestCasesSchema,
+    handler: createMultipleTestCases,
+  }),
+  defineTool({
+    name: 'generate_test_cases_from_issue',
+    description: 'Propose step-by-step test cases from the acceptance criteria (Given/When/Then blocks or bulleted lists) in a JIRA issue description, and with confirm: true create them and link them to the issue',
+    schema: generateTestCasesFromIssueSchema,
+    handler: generateTestCasesFromIssue,
+  }),
+  defineTool({
+    name: 'update_test_case',
+    description: 'Update an existing test case including title, fields, steps, and expected results. Supports complete replacement or partial updates.',
+    schema: updateTestCaseSchema,
+    handler: updateTestCase,
+  }),
+  defineTool({
+    name: 'get_test_cases',
+    description: 'Advanced search for test cases with multiple filter options. Use this for finding test cases by title, content, status, priority, folder, dates, and more.',
+    schema: getTestCasesSchema,
+    handler: getTestCases,
+  }),
+  defineTool({
+    name: 'import_junit_results',
+    description: 'Import JUnit XML results into a test cycle. Maps testcases to Zephyr test cases by key in the name, label, exact name or an explicit mapping, and records one execution per test case.',
+    schema: importJunitResultsSchema,
+    handler: importJunitResults,
+  }),
+  defineTool({
+    name: 'import_cucumber_results',
+    description: 'Import a Cucumber JSON report into a test cycle. Scenarios are matched to test cases by @PROJ-T123 tags, label, exact name or an explicit mapping; existing executions in the cycle are updated.',
+    schema: importCucumberResultsSchema,
+    handler: importCucumberResults,
+  }),
+  defineTool({
+    name: 'import_feature_files',
+    description: 'Import Gherkin .feature files as BDD test cases: one test case per scenario, tags become labels, and @PROJ-T123 tags update the existing test case',
+    schema: importFeatureFilesSchema,
+    handler: importFeatureFiles,
+  }),
+  defineTool({
+    name: 'list_folders',
+    description: 'List Zephyr folders with their full paths',
+    schema: listFoldersSchema,
+    handler: listFolders,
+  }),
+  defineTool({
+    name: 'get_folder_tree',
+    description: 'Get the folder hierarchy of a project as a nested tree',
+    schema: getFolderTreeSchema,
+    handler: getFolderTree,
+  }),
+  defineTool({
+    name: 'resolve_folder_path',
+    description: 'Resolve a folder path (e.g., "/Regression/API") to its folder ID, optionally creating missing folders',
+    schema: resolveFolderPathSchema,
+    handler: resolveFolderPath,
+  }),
+  defineTool({
+    name: 'create_folder',
+    description: 'Create a test case, test cycle or test plan folder',
+    schema: createFolderSchema,
+    handler: createFolder,
+  }),
+  defineTool({
+    name: 'update_folder',
+    description: 'Rename a folder or move it under another parent',
+    schema: updateFolderSchema,
+    handler: updateFolder,
+  }),
+  defineTool({
+    name: 'delete_folder',
+    description: 'Delete a folder. Requires confirm: true',
+    schema: deleteFolderSchema,
+    handler: deleteFolder,
+  }),
+];
@@ -1,5 +1,19 @@
 import { JiraClient } from '../clients/jira-client.js';
-import { readJiraIssueSchema, ReadJiraIssueInput } from '../utils/validation.js';
+import { adfToMarkdown, isAdfDocument } from '../utils/adf.js';
+import {
+  readJiraIssueSchema,
+  searchJiraIssuesSchema,
+  getJiraProjectSchema,
+  getJiraProjectVersionsSchema,
+  createJiraIssueSchema,
+  linkJiraIssuesSchema,
+  ReadJiraIssueInput,
+  SearchJiraIssuesInput,
+  GetJiraProjectInput,
+  GetJiraProjectVersionsInput,
+  CreateJiraIssueInput,
+  LinkJiraIssuesInput,
+} from '../utils/validation.js';
 
 let jiraClient: JiraClient | null = null;
 
@@ -15,13 +29,16 @@ export const readJiraIssue = async (input: ReadJiraIssueInput) => {
   
   try {
     const issue = await getJiraClient().getIssue(validatedInput.issueKey, validatedInput.fields);
+    const asMarkdown = validatedInput.descriptionFormat === 'MARKDOWN';
     
     return {
       success: true,
       data: {
         key: issue.key,
         summary: issue.fields?.summary || null,
-        description: issue.fields?.description || null,
+        description: issue.fields?.description
+          ? (asMarkdown ? adfToMarkdown(issue.fields.description) : issue.fields.description)
+          : null,
         status: issue.fields?.status ? {
           name: issue.fields.status.name,
           category: issue.fields.status.statusCategory?.name || 'Unknown',
@@ -49,7 +66,7 @@ export const readJiraIssue = async (input: ReadJiraIssueInput) => {
           .filter(([key]) => key.startsWith('customfield_'))
           .reduce((acc, [key, value]) => ({
             ...acc,
-            [key]: value,
+            [key]: asMarkdown && isAdfDocument(value) ? adfToMarkdown(value) : value,
           }), {}) : {},
       },
     };
@@ -61,22 +78,26 @@ export const readJiraIssue = async (input: ReadJiraIssueInput) => {
   }
 };
 
-export const searchJiraIssues = async (input: {
-  jql: string;
-  fields?: string[];
-  maxResults?: number;
-}) => {
+export const searchJiraIssues = async (input: SearchJiraIssuesInput) => {
+  const validatedInput = searchJiraIssuesSchema.parse(input);
+
   try {
     const result = await getJiraClient().searchIssues(
-      input.jql,
-      input.fields,
-      input.maxResults || 50
+      validatedInput.jql,
+      validatedInput.fields,
+      validatedInput.maxResults,
+      validatedInput.startAt
     );
+    const nextStartAt = result.startAt + result.issues.length;
     
     return {
       success: true,
       data: {
         total: result.total,
+        startAt: result.startAt,
+        maxResults: result.maxResults,
+        isLast: nextStartAt >= result.total || result.issues.length === 0,
+        nextStartAt: nextStartAt < result.total ? nextStartAt : null,
         issues: result.issues.map(issue => ({
           key: issue.key,
           summary: issue.fields?.summary || 'No Summary',
@@ -85,6 +106,80 @@ export const searchJiraIssues = async (input: {
           project: issue.fields?.project?.key || 'Unknown',
           issueType: issue.fields?.issuetype?.name || 'Unknown',
           updated: issue.fields?.updated || null,
+          description: issue.fields?.description !== undefined ? adfToMarkdown(issue.fields.description) : undefined,
+        })),
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.errorMessages?.[0] || error.message,
+    };
+  }
+};
+
+export const getJiraProject = async (input: GetJiraProjectInput) => {
+  const validatedInput = getJiraProjectSchema.parse(input);
+
+  try {
+    const project = await getJiraClient().getProject(validatedInput.projectKey);
+
+    return {
+      success: true,
+      data: {
+        id: project.id,
+        key: project.key,
+        name: project.name,
+        projectTypeKey: project.projectTypeKey,
+        simplified: project.simplified,
+        style: project.style,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.errorMessages?.[0] || error.message,
+    };
+  }
+};
+
+export const getJiraProjectVersions = async (input: GetJiraProjectVersionsInput) => {
+  const validatedInput = getJiraProjectVersionsSchema.parse(input);
+
+  try {
+    const jira = getJiraClient();
+
+    if (validatedInput.name) {
+      const version = await jira.findProjectVersion(validatedInput.projectKey, validatedInput.name);
+      if (!version) {
+        return {
+          success: false,
+          error: `Version "${validatedInput.name}" not found in project ${validatedInput.projectKey}`,
+        };
+      }
+      return {
+        success: true,
+        data: {
+          total: 1,
+          versions: [version],
+        },
+      };
+    }
+
+    const versions = (await jira.getProjectVersions(validatedInput.projectKey))
+      .filter(version => validatedInput.includeArchived || !version.archived)
+      .filter(version => validatedInput.includeReleased || !version.released);
+
+    return {
+      success: true,
+      data: {
+        total: versions.length,
+        versions: versions.map(version => ({
+          id: version.id,
+          name: version.name,
+          description: version.description,
+          released: version.released,
+          archived: version.archived,
         })),
       },
     };
@@ -94,4 +189,57 @@ export const searchJiraIssues = async (input: {
       error: error.response?.data?.errorMessages?.[0] || error.message,
     };
   }
-};
\ No newline at end of file
+};
+
+export const createJiraIssue = async (input: CreateJiraIssueInput) => {
+  const validatedInput = createJiraIssueSchema.parse(input);
+
+  try {
+    const issue = await getJiraClient().createIssue(validatedInput);
+
+    return {
+      success: true,
+      data: {
+        id: issue.id,
+        key: issue.key,
+        summary: issue.fields?.summary,
+        issueType: issue.fields?.issuetype?.name,
+        status: issue.fields?.status?.name,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.errorMessages?.[0]
+        || Object.values(error.response?.data?.errors || {})[0]
+        || error.message,
+    };
+  }
+};
+
+export const linkJiraIssues = async (input: LinkJiraIssuesInput) => {
+  const validatedInput = linkJiraIssuesSchema.parse(input);
+
+  try {
+    await getJiraClient().linkIssues(
+      validatedInput.inwardIssueKey,
+      validatedInput.outwardIssueKey,
+      validatedInput.linkType
+    );
+
+    return {
+      success: true,
+      data: {
+        inwardIssueKey: validatedInput.inwardIssueKey,
+        outwardIssueKey: validatedInput.outwardIssueKey,
+        linkType: validatedInput.linkType,
+        message: `Linked ${validatedInput.inwardIssueKey} to ${validatedInput.outwardIssueKey} (${validatedInput.linkType})`,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.errorMessages?.[0] || error.message,
+    };
+  }
+};
@@ -0,0 +1,694 @@
+import { ZephyrClient } from '../clients/zephyr-client.js';
+import { JiraClient } from '../clients/jira-client.js';
+import { ZephyrExecutionSummary, ZephyrTestCycle, ZephyrTestExecution } from '../types/zephyr-types.js';
+import {
+  getExecutionTestCaseKey,
+  getExecutionDate,
+  getLatestExecutionsByTestCase,
+  getCycleDate,
+  normalizeStatus,
+  summarizeExecutions,
+} from '../utils/executions.js';
+import { getAppConfig } from '../utils/config.js';
+import { html } from '../utils/html.js';
+import { sparkline, textSparkline } from '../utils/charts.js';
+import { formatPercent, toMarkdownTable } from '../utils/format.js';
+import {
+  generateTestPlanReportSchema,
+  generateTrendReportSchema,
+  compareTestCyclesSchema,
+  GenerateTestPlanReportInput,
+  GenerateTrendReportInput,
+  CompareTestCyclesInput,
+} from '../utils/validation.js';
+
+let zephyrClient: ZephyrClient | null = null;
+let jiraClient: JiraClient | null = null;
+
+const getZephyrClient = (): ZephyrClient => {
+  if (!zephyrClient) {
+    zephyrClient = new ZephyrClient();
+  }
+  return zephyrClient;
+};
+
+const getJiraClient = (): JiraClient => {
+  if (!jiraClient) {
+    jiraClient = new JiraClient();
+  }
+  return jiraClient;
+};
+
+interface TestPlanReport {
+  testPlanId: string;
+  testPlanKey: string;
+  testPlanName: string;
+  summary: ZephyrExecutionSummary;
+  cycles: Array<{
+    id: string;
+    key: string;
+    name: string;
+    summary: ZephyrExecutionSummary;
+  }>;
+  testCases: Array<{
+    testCaseKey: string;
+    status: string;
+    executionKey: string;
+    cycleKey: string;
+    executedOn?: string;
+  }>;
+  blocked: Array<{
+    testCaseKey: string;
+    executionKey: string;
+    cycleKey: string;
+    reason: string;
+  }>;
+  openDefects: Array<{
+    key: string;
+    url?: string;
+    summary?: string;
+    status?: string;
+    testCaseKeys: string[];
+  }>;
+  warnings: string[];
+  generatedOn: string;
+}
+
+const buildTestPlanReport = async (input: GenerateTestPlanReportInput): Promise<TestPlanReport> => {
+  const zephyr = getZephyrClient();
+  const testPlan = await zephyr.getTestPlan(input.testPlanId);
+  const { cycles: planCycles, warnings } = await zephyr.getTestPlanCycles(testPlan);
+
+  const cycles: TestPlanReport['cycles'] = [];
+  const allExecutions: ZephyrTestExecution[] = [];
+  const cycleKeyByExecution = new Map<ZephyrTestExecution, string>();
+
+  for (const { cycle, executions } of planCycles) {
+    executions.forEach(execution => cycleKeyByExecution.set(execution, cycle.key));
+    allExecutions.push(...executions);
+    cycles.push({
+      id: String(cycle.id),
+      key: cycle.key,
+      name: cycle.name,
+      summary: summarizeExecutions(executions),
+    });
+  }
+
+  // A test case run in several cycles counts once, with its most recent execution
+  const latest = Array.from(getLatestExecutionsByTestCase(allExecutions).entries());
+  const latestExecutions = latest.map(([, execution]) => execution);
+
+  const testCases = latest.map(([testCaseKey, execution]) => ({
+    testCaseKey,
+    status: normalizeStatus(execution.status),
+    executionKey: execution.key,
+    cycleKey: cycleKeyByExecution.get(execution) || '',
+    executedOn: getExecutionDate(execution),
+  }));
+
+  const blocked = latestExecutions
+    .filter(execution => normalizeStatus(execution.status) === 'BLOCKED')
+    .map(execution => ({
+      testCaseKey: getExecutionTestCaseKey(execution) || '',
+      executionKey: execution.key,
+      cycleKey: cycleKeyByExecution.get(execution) || '',
+      reason: execution.comment || 'No reason given',
+    }));
+
+  const jiraBaseUrl = getAppConfig().JIRA_BASE_URL.replace(/\/+$/, '');
+  const defects = new Map<string, TestPlanReport['openDefects'][number]>();
+  for (const execution of latestExecutions) {
+    for (const defect of execution.defects || []) {
+      const entry = defects.get(defect.key) || {
+        key: defect.key,
+        url: `${jiraBaseUrl}/browse/${encodeURIComponent(defect.key)}`,
+        summary: defect.summary,
+        testCaseKeys: [],
+      };
+      const testCaseKey = getExecutionTestCaseKey(execution);
+      if (testCaseKey && !entry.testCaseKeys.includes(testCaseKey)) {
+        entry.testCaseKeys.push(testCaseKey);
+      }
+      defects.set(defect.key, entry);
+    }
+  }
+
+  let openDefects = Array.from(defects.values());
+  if (input.checkDefectStatus && openDefects.length > 0) {
+    try {
+      const jql = `key in (${openDefects.map(defect => defect.key).join(',')}) AND statusCategory != Done`;
+      const result = await getJiraClient().searchAllIssues(jql, ['summary', 'status']);
+      const open = new Map(result.issues.map(issue => [issue.key, issue]));
+      openDefects = openDefects
+        .filter(defect => open.has(defect.key))
+        .map(defect => ({
+          ...defect,
+          summary: open.get(defect.key)!.fields?.summary || defect.summary,
+          status: open.get(defect.key)!.fields?.status?.name,
+        }));
+    } catch (error: any) {
+      warnings.push(`Failed to check defect status in JIRA, listing all linked defects: ${error.response?.data?.errorMessages?.[0] || error.message}`);
+    }
+  }
+
+  return {
+    testPlanId: String(testPlan.id),
+    testPlanKey: testPlan.key,
+    testPlanName: testPlan.name,
+    summary: summarizeExecutions(latestExecutions),
+    cycles,
+    testCases,
+    blocked,
+    openDefects,
+    warnings,
+    generatedOn: new Date().toISOString(),
+  };
+};
+
+const generateTestPlanHtmlReport = (report: TestPlanReport) => {
+  const metric = (label: string, value: string | number) => html`
+        <div class="metric">
+          <h3>${label}</h3>
+          <div class="value">${value}</div>
+        </div>`;
+
+  const table = (header: string[], rows: unknown[][]) => rows.length === 0 ? html`<p>None</p>` : html`
+      <table>
+        <tr>${header.map(cell => html`<th>${cell}</th>`)}</tr>
+        ${rows.map(row => html`
+        <tr>${row.map(cell => html`<td>${cell}</td>`)}</tr>`)}
+      </table>`;
+
+  return html`<!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Test Plan Report - ${report.testPlanName}</title>
+      <style>
+        body { font-family: Arial, sans-serif; margin: 20px; }
+        .header { background-color: #f5f5f5; padding: 20px; border-radius: 5px; }
+        .summary { display: flex; gap: 20px; margin: 20px 0; }
+        .metric { background-color: #e8f4f8; padding: 15px; border-radius: 5px; text-align: center; }
+        .metric h3 { margin: 0 0 10px 0; }
+        .metric .value { font-size: 24px; font-weight: bold; }
+        table { border-collapse: collapse; margin: 10px 0 30px 0; }
+        th, td { border: 1px solid #ddd; padding: 6px 12px; text-align: left; }
+        th { background-color: #f5f5f5; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>Test Plan Report</h1>
+        <h2>${report.testPlanKey} - ${report.testPlanName}</h2>
+        <p>Generated: ${new Date(report.generatedOn).toLocaleString()}</p>
+      </div>
+
+      <div class="summary">
+        ${metric('Test Cases', report.summary.total)}
+        ${metric('Passed', report.summary.passed)}
+        ${metric('Failed', report.summary.failed)}
+        ${metric('Blocked', report.summary.blocked)}
+        ${metric('Pass Rate', formatPercent(report.summary.passRate))}
+      </div>
+
+      <h3>Test Cycles</h3>
+      ${table(
+        ['Cycle', 'Name', 'Total', 'Passed', 'Failed', 'Blocked', 'Pass Rate'],
+        report.cycles.map(cycle => [
+          cycle.key, cycle.name, cycle.summary.total, cycle.summary.passed,
+          cycle.summary.failed, cycle.summary.blocked, formatPercent(cycle.summary.passRate),
+        ])
+      )}
+
+      <h3>Blocked</h3>
+      ${table(
+        ['Test Case', 'Execution', 'Cycle', 'Reason'],
+        report.blocked.map(item => [item.testCaseKey, item.executionKey, item.cycleKey, item.reason])
+      )}
+
+      <h3>Open Defects</h3>
+      ${table(
+        ['Defect', 'Summary', 'Status', 'Test Cases'],
+        report.openDefects.map(defect => [
+          defect.url ? html`<a href="${defect.url}" target="_blank" rel="noopener noreferrer">${defect.key}</a>` : defect.key,
+          defect.summary,
+          defect.status || 'Unknown',
+          defect.testCaseKeys.join(', '),
+        ])
+      )}
+    </body>
+    </html>
+  `.value;
+};
+
+export const generateTestPlanReport = async (input: GenerateTestPlanReportInput) => {
+  const validatedInput = generateTestPlanReportSchema.parse(input);
+
+  try {
+    const report = await buildTestPlanReport(validatedInput);
+
+    if (validatedInput.format === 'HTML') {
+      return {
+        success: true,
+        data: {
+          format: 'HTML',
+          content: generateTestPlanHtmlReport(report),
+          generatedOn: report.generatedOn,
+        },
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        format: 'JSON',
+        content: report,
+        generatedOn: report.generatedOn,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+interface TrendPoint {
+  cycleId: string;
+  cycleKey: string;
+  cycleName: string;
+  date: string;
+  total: number;
+  executed: number;
+  passed: number;
+  failed: number;
+  blocked: number;
+  passRate: number;
+  // Executions completed per day of the cycle, null when the cycle has no dates
+  executionsPerDay: number | null;
+}
+
+interface TrendReport {
+  projectKey: string;
+  filters: {
+    version?: string;
+    versionId?: string;
+    cycleNamePattern?: string;
+    fromDate?: string;
+    toDate?: string;
+  };
+  points: TrendPoint[];
+  series: {
+    passRate: number[];
+    failed: number[];
+    executionsPerDay: Array<number | null>;
+  };
+  trend: {
+    passRateChange: number;
+    failedChange: number;
+    direction: 'IMPROVING' | 'DECLINING' | 'STABLE';
+  };
+  warnings: string[];
+  generatedOn: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getCycleDays = (cycle: ZephyrTestCycle): number | null => {
+  const start = cycle.actualStartDate || cycle.plannedStartDate;
+  const end = cycle.actualEndDate || cycle.plannedEndDate;
+  if (!start || !end) {
+    return null;
+  }
+  const days = (Date.parse(end) - Date.parse(start)) / DAY_MS;
+  return Number.isNaN(days) ? null : Math.max(1, Math.ceil(days));
+};
+
+const toNamePattern = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+
+const resolveVersionId = async (projectKey: string, version: string): Promise<string> => {
+  if (/^\d+$/.test(version)) {
+    return version;
+  }
+  const found = await getJiraClient().findProjectVersion(projectKey, version);
+  if (!found) {
+    throw new Error(`Version "${version}" not found in project ${projectKey}`);
+  }
+  return String(found.id);
+};
+
+const buildTrendReport = async (input: GenerateTrendReportInput): Promise<TrendReport> => {
+  const zephyr = getZephyrClient();
+  const versionId = input.version ? await resolveVersionId(input.projectKey, input.version) : undefined;
+  const namePattern = input.cycleNamePattern ? toNamePattern(input.cycleNamePattern) : undefined;
+  const warnings: string[] = [];
+
+  const cycles = (await zephyr.getAllTestCycles(input.projectKey, versionId))
+    .filter(cycle => !versionId || String(cycle.jiraProjectVersion?.id ?? cycle.versionId) === versionId)
+    .filter(cycle => !namePattern || namePattern.test(cycle.name))
+    .filter(cycle => !input.fromDate || getCycleDate(cycle) >= input.fromDate)
+    .filter(cycle => !input.toDate || getCycleDate(cycle) <= input.toDate)
+    .sort((a, b) => getCycleDate(a).localeCompare(getCycleDate(b)) || a.key.localeCompare(b.key, undefined, { numeric: true }))
+    .slice(-input.maxCycles);
+
+  const points: TrendPoint[] = [];
+  for (const cycle of cycles) {
+    try {
+      const summary = await zephyr.getTestExecutionSummary(cycle.key || String(cycle.id));
+      const executed = summary.total - summary.notExecuted;
+      const days = getCycleDays(cycle);
+      points.push({
+        cycleId: String(cycle.id),
+        cycleKey: cycle.key,
+        cycleName: cycle.name,
+        date: getCycleDate(cycle),
+        total: summary.total,
+        executed,
+        passed: summary.passed,
+        failed: summary.failed,
+        blocked: summary.blocked,
+        passRate: Math.round(summary.passRate * 10) / 10,
+        executionsPerDay: days === null ? null : Math.round((executed / days) * 10) / 10,
+      });
+    } catch (error: any) {
+      warnings.push(`Failed to load executions of ${cycle.key}: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const passRateChange = first && last ? Math.round((last.passRate - first.passRate) * 10) / 10 : 0;
+  const failedChange = first && last ? last.failed - first.failed : 0;
+
+  return {
+    projectKey: input.projectKey,
+    filters: {
+      version: input.version,
+      versionId,
+      cycleNamePattern: input.cycleNamePattern,
+      fromDate: input.fromDate,
+      toDate: input.toDate,
+    },
+    points,
+    series: {
+      passRate: points.map(point => point.passRate),
+      failed: points.map(point => point.failed),
+      executionsPerDay: points.map(point => point.executionsPerDay),
+    },
+    trend: {
+      passRateChange,
+      failedChange,
+      direction: passRateChange > 0 ? 'IMPROVING' : passRateChange < 0 ? 'DECLINING' : 'STABLE',
+    },
+    warnings,
+    generatedOn: new Date().toISOString(),
+  };
+};
+
+const numbersOnly = (values: Array<number | null>): number[] =>
+  values.filter((value): value is number => value !== null);
+
+const generateTrendMarkdownReport = (report: TrendReport): string => {
+  const sign = (value: number) => (value > 0 ? `+${value}` : String(value));
+  const lines = [
+    `# Execution Trend - ${report.projectKey}`,
+    '',
+    `Generated: ${report.generatedOn}`,
+    '',
+    `Trend: **${report.trend.direction}** (pass rate ${sign(report.trend.passRateChange)} pts, failures ${sign(report.trend.failedChange)})`,
+    '',
+    toMarkdownTable(['Series', 'Trend', 'First', 'Last'], [
+      ['Pass rate (%)', textSparkline(report.series.passRate, 0, 100), report.series.passRate[0], report.series.passRate[report.series.passRate.length - 1]],
+      ['Failures', textSparkline(report.series.failed), report.series.failed[0], report.series.failed[report.series.failed.length - 1]],
+      ['Executions/day', textSparkline(numbersOnly(report.series.executionsPerDay)), report.series.executionsPerDay[0] ?? 'n/a', report.series.executionsPerDay[report.series.executionsPerDay.length - 1] ?? 'n/a'],
+    ]),
+    '',
+    '## Cycles',
+    '',
+    toMarkdownTable(
+      ['Cycle', 'Name', 'Date', 'Executed', 'Passed', 'Failed', 'Blocked', 'Pass Rate', 'Executions/day'],
+      report.points.map(point => [
+        point.cycleKey, point.cycleName, point.date, `${point.executed}/${point.total}`, point.passed,
+        point.failed, point.blocked, `${point.passRate}%`, point.executionsPerDay ?? 'n/a',
+      ])
+    ),
+  ];
+
+  if (report.warnings.length > 0) {
+    lines.push('', '## Warnings', '', ...report.warnings.map(warning => `- ${warning}`));
+  }
+  return lines.join('\n');
+};
+
+const generateTrendHtmlReport = (report: TrendReport): string => {
+  const labels = report.points.map(point => point.cycleKey);
+  const velocity = report.points.filter(point => point.executionsPerDay !== null);
+
+  const metric = (label: string, values: number[], chart: ReturnType<typeof sparkline>, suffix = '') => html`
+        <div class="metric">
+          <h3>${label}</h3>
+          <div class="value">${values.length > 0 ? `${values[values.length - 1]}${suffix}` : 'n/a'}</div>
+          ${chart}
+        </div>`;
+
+  return html`<!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Execution Trend - ${report.projectKey}</title>
+      <style>
+        body { font-family: Arial, sans-serif; margin: 20px; }
+        .header { background-color: #f5f5f5; padding: 20px; border-radius: 5px; }
+        .summary { display: flex; gap: 20px; margin: 20px 0; }
+        .metric { background-color: #e8f4f8; padding: 15px; border-radius: 5px; text-align: center; }
+        .metric h3 { margin: 0 0 10px 0; }
+        .metric .value { font-size: 24px; font-weight: bold; }
+        table { border-collapse: collapse; margin: 10px 0 30px 0; }
+        th, td { border: 1px solid #ddd; padding: 6px 12px; text-align: left; }
+        th { background-color: #f5f5f5; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>Execution Trend</h1>
+        <h2>${report.projectKey} - ${report.trend.direction}</h2>
+        <p>Generated: ${new Date(report.generatedOn).toLocaleString()}</p>
+      </div>
+
+      <div class="summary">
+        ${metric('Pass Rate', report.series.passRate, sparkline(report.series.passRate, { color: '#4caf50', min: 0, max: 100, labels }), '%')}
+        ${metric('Failures', report.series.failed, sparkline(report.series.failed, { color: '#f44336', labels }))}
+        ${metric('Executions / Day', numbersOnly(report.series.executionsPerDay), sparkline(
+          velocity.map(point => point.executionsPerDay!),
+          { color: '#2196f3', labels: velocity.map(point => point.cycleKey) }
+        ))}
+      </div>
+
+      <h3>Cycles</h3>
+      <table>
+        <tr>${['Cycle', 'Name', 'Date', 'Executed', 'Passed', 'Failed', 'Blocked', 'Pass Rate', 'Executions/day'].map(cell => html`<th>${cell}</th>`)}</tr>
+        ${report.points.map(point => html`
+        <tr>
+          <td>${point.cycleKey}</td>
+          <td>${point.cycleName}</td>
+          <td>${point.date}</td>
+          <td>${point.executed}/${point.total}</td>
+          <td>${point.passed}</td>
+          <td>${point.failed}</td>
+          <td>${point.blocked}</td>
+          <td>${point.passRate}%</td>
+          <td>${point.executionsPerDay ?? 'n/a'}</td>
+        </tr>`)}
+      </table>
+    </body>
+    </html>
+  `.value;
+};
+
+export const generateTrendReport = async (input: GenerateTrendReportInput) => {
+  const validatedInput = generateTrendReportSchema.parse(input);
+
+  try {
+    const report = await buildTrendReport(validatedInput);
+
+    if (report.points.length === 0) {
+      return {
+        success: false,
+        error: `No test cycles in ${validatedInput.projectKey} match the given version, name pattern or date range`,
+      };
+    }
+
+    const rendered = validatedInput.format === 'MARKDOWN'
+      ? generateTrendMarkdownReport(report)
+      : validatedInput.format === 'HTML'
+        ? generateTrendHtmlReport(report)
+        : undefined;
+
+    return {
+      success: true,
+      data: {
+        format: validatedInput.format,
+        report,
+        content: rendered,
+        generatedOn: report.generatedOn,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.errorMessages?.[0] || error.response?.data?.message || error.message,
+    };
+  }
+};
+
+interface CycleComparisonEntry {
+  testCaseKey: string;
+  baseStatus?: string;
+  targetStatus?: string;
+  baseExecutionKey?: string;
+  targetExecutionKey?: string;
+  defects?: string[];
+}
+
+interface CycleComparison {
+  base: { id: string; key: string; name: string; summary: ZephyrExecutionSummary };
+  target: { id: string; key: string; name: string; summary: ZephyrExecutionSummary };
+  passRateDelta: number;
+  newlyFailing: CycleComparisonEntry[];
+  newlyPassing: CycleComparisonEntry[];
+  stillFailing: CycleComparisonEntry[];
+  otherChanges: CycleComparisonEntry[];
+  added: CycleComparisonEntry[];
+  removed: CycleComparisonEntry[];
+  unchangedCount: number;
+  generatedOn: string;
+}
+
+const loadCycleResults = async (cycleId: string) => {
+  const zephyr = getZephyrClient();
+  const cycle = await zephyr.getTestCycle(cycleId);
+  const executions = await zephyr.getTestCycleExecutions(cycle.key || cycleId);
+  const latest = getLatestExecutionsByTestCase(executions);
+  return {
+    cycle: {
+      id: String(cycle.id),
+      key: cycle.key,
+      name: cycle.name,
+      summary: summarizeExecutions(Array.from(latest.values())),
+    },
+    latest,
+  };
+};
+
+const compareCycles = async (input: CompareTestCyclesInput): Promise<CycleComparison> => {
+  const base = await loadCycleResults(input.baseCycleId);
+  const target = await loadCycleResults(input.targetCycleId);
+
+  const comparison: CycleComparison = {
+    base: base.cycle,
+    target: target.cycle,
+    passRateDelta: Math.round((target.cycle.summary.passRate - base.cycle.summary.passRate) * 10) / 10,
+    newlyFailing: [],
+    newlyPassing: [],
+    stillFailing: [],
+    otherChanges: [],
+    added: [],
+    removed: [],
+    unchangedCount: 0,
+    generatedOn: new Date().toISOString(),
+  };
+
+  for (const [testCaseKey, execution] of target.latest) {
+    const previous = base.latest.get(testCaseKey);
+    const baseStatus = previous && normalizeStatus(previous.status);
+    const targetStatus = normalizeStatus(execution.status);
+    const entry: CycleComparisonEntry = {
+      testCaseKey,
+      baseStatus,
+      targetStatus,
+      baseExecutionKey: previous?.key,
+      targetExecutionKey: execution.key,
+      defects: execution.defects?.length ? execution.defects.map(defect => defect.key) : undefined,
+    };
+
+    if (!previous) {
+      comparison.added.push(entry);
+    } else if (targetStatus === 'FAIL') {
+      (baseStatus === 'FAIL' ? comparison.stillFailing : comparison.newlyFailing).push(entry);
+    } else if (targetStatus === 'PASS' && baseStatus !== 'PASS') {
+      comparison.newlyPassing.push(entry);
+    } else if (targetStatus !== baseStatus) {
+      comparison.otherChanges.push(entry);
+    } else {
+      comparison.unchangedCount++;
+    }
+  }
+
+  for (const [testCaseKey, execution] of base.latest) {
+    if (!target.latest.has(testCaseKey)) {
+      comparison.removed.push({ testCaseKey, baseStatus: normalizeStatus(execution.status), baseExecutionKey: execution.key });
+    }
+  }
+
+  return comparison;
+};
+
+const generateComparisonMarkdown = (comparison: CycleComparison): string => {
+  const { base, target } = comparison;
+  const delta = comparison.passRateDelta > 0 ? `+${comparison.passRateDelta}` : String(comparison.passRateDelta);
+  const section = (title: string, entries: CycleComparisonEntry[]) => entries.length === 0 ? [] : [
+    '',
+    `### ${title} (${entries.length})`,
+    '',
+    toMarkdownTable(
+      ['Test Case', base.key, target.key, 'Defects'],
+      entries.map(entry => [entry.testCaseKey, entry.baseStatus || '-', entry.targetStatus || '-', entry.defects?.join(', ') || ''])
+    ),
+  ];
+
+  return [
+    `## ${target.key} vs ${base.key}`,
+    '',
+    `Comparing **${target.name}** with **${base.name}**.`,
+    '',
+    toMarkdownTable(['', base.key, target.key, 'Change'], [
+      ['Pass rate', formatPercent(base.summary.passRate), formatPercent(target.summary.passRate), `${delta} pts`],
+      ['Passed', base.summary.passed, target.summary.passed, target.summary.passed - base.summary.passed],
+      ['Failed', base.summary.failed, target.summary.failed, target.summary.failed - base.summary.failed],
+      ['Test cases', base.summary.total, target.summary.total, target.summary.total - base.summary.total],
+    ]),
+    '',
+    `${comparison.newlyFailing.length} newly failing, ${comparison.newlyPassing.length} newly passing, `
+      + `${comparison.stillFailing.length} still failing, ${comparison.added.length} added, `
+      + `${comparison.removed.length} removed, ${comparison.unchangedCount} unchanged.`,
+    ...section('Newly failing', comparison.newlyFailing),
+    ...section('Newly passing', comparison.newlyPassing),
+    ...section('Still failing', comparison.stillFailing),
+    ...section('Other status changes', comparison.otherChanges),
+    ...section('Added', comparison.added),
+    ...section('Removed', comparison.removed),
+  ].join('\n');
+};
+
+export const compareTestCycles = async (input: CompareTestCyclesInput) => {
+  const validatedInput = compareTestCyclesSchema.parse(input);
+
+  try {
+    const comparison = await compareCycles(validatedInput);
+
+    return {
+      success: true,
+      data: {
+        comparison,
+        markdown: generateComparisonMarkdown(comparison),
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
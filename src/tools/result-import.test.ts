@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ZephyrClient } from '../clients/zephyr-client.js';
+import { ZephyrTestExecution } from '../types/zephyr-types.js';
+import { importCucumberResultsSchema, importJunitResultsSchema } from '../utils/validation.js';
+import { importCucumberResults, importJunitResults } from './result-import.js';
+
+// Parse failures are returned before any Zephyr request is made
+describe('report parse errors', () => {
+  it('does not echo the JUnit parser message', async () => {
+    const result = await importJunitResults(importJunitResultsSchema.parse({
+      projectKey: 'PROJ',
+      versionId: '10001',
+      content: '<testsuite><secret-value>',
+    }));
+
+    expect(result).toEqual({ success: false, error: 'The report could not be parsed as JUnit XML' });
+  });
+
+  it('does not echo the Cucumber parser message', async () => {
+    const result = await importCucumberResults(importCucumberResultsSchema.parse({
+      projectKey: 'PROJ',
+      versionId: '10001',
+      content: 'root:x:0:0:root',
+    }));
+
+    expect(result).toEqual({ success: false, error: 'The report could not be parsed as Cucumber JSON' });
+  });
+});
+
+describe('importing into a cycle that already has executions', () => {
+  beforeEach(() => {
+    vi.stubEnv('JIRA_BASE_URL', 'https://example.atlassian.net');
+    vi.stubEnv('JIRA_USERNAME', 'qa@example.com');
+    vi.stubEnv('JIRA_API_TOKEN', 'jira-token');
+    vi.stubEnv('ZEPHYR_API_TOKEN', 'zephyr-token');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('updates existing executions with their timing and never creates duplicates', async () => {
+    const existing = (testCaseKey: string, key: string) =>
+      ({ id: key, key, testCaseKey, status: 'PASS', defects: [] }) as unknown as ZephyrTestExecution;
+    vi.spyOn(ZephyrClient.prototype, 'getTestCycleExecutions')
+      .mockResolvedValue([existing('PROJ-T1', 'PROJ-E1'), existing('PROJ-T2', 'PROJ-E2')]);
+    const update = vi.spyOn(ZephyrClient.prototype, 'updateTestExecution')
+      .mockResolvedValue(existing('PROJ-T1', 'PROJ-E1'));
+    const create = vi.spyOn(ZephyrClient.prototype, 'createTestExecution');
+
+    const scenario = (tag: string, status: string, extra: object = {}) => ({
+      type: 'scenario',
+      name: `${tag} scenario`,
+      tags: [{ name: `@${tag}` }],
+      steps: [{ keyword: 'Given ', name: 'a step', result: { status, duration: 1_500_000_000, ...extra } }],
+    });
+    const result = await importCucumberResults(importCucumberResultsSchema.parse({
+      projectKey: 'PROJ',
+      cycleId: 'PROJ-R1',
+      content: JSON.stringify([{
+        name: 'Auth',
+        elements: [scenario('PROJ-T1', 'failed', { error_message: '401' }), scenario('PROJ-T2', 'skipped')],
+      }]),
+    }));
+
+    expect(create).not.toHaveBeenCalled();
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({
+      executionId: 'PROJ-E1',
+      status: 'FAIL',
+      executionTime: 1500,
+      actualEndDate: expect.any(String),
+    }));
+    expect(result.data?.summary).toMatchObject({ executionsCreated: 0, executionsUpdated: 1, executionsSkipped: 1 });
+  });
+});
@@ -0,0 +1,519 @@
+import { ZephyrClient } from '../clients/zephyr-client.js';
+import { ZephyrTestCase } from '../types/zephyr-types.js';
+import { parseJUnitXml } from '../utils/junit.js';
+import { parseFeatureFile, parseCucumberJson, toBddScript } from '../utils/gherkin.js';
+import { getExecutionTestCaseKey } from '../utils/executions.js';
+import { readInputFile } from '../utils/file-access.js';
+import { createLogger } from '../utils/logger.js';
+import {
+  importJunitResultsSchema,
+  importCucumberResultsSchema,
+  importFeatureFilesSchema,
+  ImportJunitResultsInput,
+  ImportCucumberResultsInput,
+  ImportFeatureFilesInput,
+} from '../utils/validation.js';
+
+const logger = createLogger('result-import');
+
+let zephyrClient: ZephyrClient | null = null;
+
+const getZephyrClient = (): ZephyrClient => {
+  if (!zephyrClient) {
+    zephyrClient = new ZephyrClient();
+  }
+  return zephyrClient;
+};
+
+type ImportedStatus = 'PASS' | 'FAIL' | 'BLOCKED' | 'NOT_EXECUTED';
+
+// A single automated result, normalized from whatever report format it came from
+interface ImportedResult {
+  id: string;
+  name: string;
+  status: ImportedStatus;
+  durationMs?: number;
+  comment?: string;
+  keySources: string[];
+  labelSources: string[];
+}
+
+interface ImportedExecution {
+  testCaseKey: string;
+  success: boolean;
+  updated?: boolean;
+  skipped?: boolean;
+  status: ImportedStatus;
+  executionId?: string;
+  executionKey?: string;
+  results: string[];
+  error?: string;
+}
+
+interface ImportOptions {
+  projectKey: string;
+  source: string;
+  cycleId?: string;
+  cycleName?: string;
+  versionId?: string;
+  environment?: string;
+  mapping?: Record<string, string>;
+  matchByLabel: boolean;
+  matchByName: boolean;
+  createMissingTestCases: boolean;
+  folderId?: string;
+  folderPath?: string;
+  labels?: string[];
+  updateExistingExecutions?: boolean;
+}
+
+const TEST_CASE_KEY_PATTERN = /\b[A-Z][A-Z0-9_]*-T\d+\b/;
+const KEY_TAG_PATTERN = /^[A-Z][A-Z0-9_]*-T\d+$/;
+const MAX_COMMENT_LENGTH = 4000;
+
+const STATUS_SEVERITY: Record<ImportedStatus, number> = {
+  FAIL: 3,
+  BLOCKED: 2,
+  PASS: 1,
+  NOT_EXECUTED: 0,
+};
+
+const worstStatus = (statuses: ImportedStatus[]): ImportedStatus =>
+  statuses.reduce((worst, status) => (STATUS_SEVERITY[status] > STATUS_SEVERITY[worst] ? status : worst), 'NOT_EXECUTED');
+
+const getLabelNames = (testCase: ZephyrTestCase): string[] =>
+  (testCase.labels || []).map((label: any) => (typeof label === 'object' ? label.name || label.value : String(label)));
+
+const readReportContent = async (filePath?: string, content?: string): Promise<string> => {
+  if (content) {
+    return content;
+  }
+  return readInputFile(filePath!);
+};
+
+// Parser errors can quote the input, so the details are only logged
+const parseReport = <T>(parse: (content: string) => T, content: string, format: string, source = 'The report'): T => {
+  try {
+    return parse(content);
+  } catch (error) {
+    logger.warn(`Failed to parse ${source} as ${format}`, error);
+    throw new Error(`${source} could not be parsed as ${format}`);
+  }
+};
+
+const recordImportedResults = async (results: ImportedResult[], options: ImportOptions) => {
+  const zephyr = getZephyrClient();
+  let projectTestCases: ZephyrTestCase[] | null = null;
+
+  const findTestCaseKey = async (result: ImportedResult): Promise<string | undefined> => {
+    const mapped = options.mapping?.[result.id] || options.mapping?.[result.name];
+    if (mapped) {
+      return mapped;
+    }
+
+    for (const source of result.keySources) {
+      const match = source.match(TEST_CASE_KEY_PATTERN);
+      if (match) {
+        return match[0];
+      }
+    }
+
+    if (!options.matchByLabel && !options.matchByName) {
+      return undefined;
+    }
+
+    projectTestCases ??= await zephyr.getAllTestCases(options.projectKey);
+
+    if (options.matchByLabel) {
+      const byLabel = projectTestCases.find(tc =>
+        getLabelNames(tc).some(label => result.labelSources.includes(label))
+      );
+      if (byLabel) {
+        return byLabel.key;
+      }
+    }
+
+    if (options.matchByName) {
+      const name = result.name.toLowerCase();
+      return projectTestCases.find(tc => tc.name?.toLowerCase() === name)?.key;
+    }
+
+    return undefined;
+  };
+
+  // Map every result to a test case key, creating test cases where allowed
+  const createdTestCases = new Map<string, string>();
+  const mappedResults: Array<ImportedResult & { testCaseKey?: string; error?: string }> = [];
+
+  let folderId = options.folderId;
+  if (options.createMissingTestCases && options.folderPath) {
+    folderId = String((await zephyr.resolveFolderPath(options.projectKey, options.folderPath, 'TEST_CASE', true)).id);
+  }
+
+  for (const result of results) {
+    let testCaseKey = await findTestCaseKey(result);
+
+    if (!testCaseKey && options.createMissingTestCases) {
+      testCaseKey = createdTestCases.get(result.id);
+      if (!testCaseKey) {
+        try {
+          const testCase = await zephyr.createTestCase({
+            projectKey: options.projectKey,
+            name: result.name,
+            objective: `Created from ${options.source} result ${result.id}`,
+            folderId,
+            labels: options.labels,
+          });
+          testCaseKey = testCase.key;
+          createdTestCases.set(result.id, testCaseKey);
+        } catch (error: any) {
+          mappedResults.push({ ...result, error: `Failed to create test case: ${error.response?.data?.message || error.message}` });
+          continue;
+        }
+      }
+    }
+
+    mappedResults.push({ ...result, testCaseKey });
+  }
+
+  // Several results may map to the same test case; record one execution each
+  const byTestCase = new Map<string, ImportedResult[]>();
+  for (const result of mappedResults) {
+    if (result.testCaseKey) {
+      byTestCase.set(result.testCaseKey, [...(byTestCase.get(result.testCaseKey) || []), result]);
+    }
+  }
+
+  const unmapped = mappedResults.filter(r => !r.testCaseKey);
+  const summarize = (cycleId: string | undefined, cycleCreated: boolean, executions: ImportedExecution[]) => ({
+    cycleId,
+    cycleCreated,
+    summary: {
+      totalResults: results.length,
+      mapped: mappedResults.length - unmapped.length,
+      unmapped: unmapped.length,
+      testCasesCreated: createdTestCases.size,
+      executionsCreated: executions.filter(e => e.success && !e.updated && !e.skipped).length,
+      executionsUpdated: executions.filter(e => e.updated).length,
+      executionsSkipped: executions.filter(e => e.skipped).length,
+      executionsFailed: executions.filter(e => !e.success).length,
+    },
+    executions,
+    createdTestCases: Array.from(createdTestCases, ([result, testCaseKey]) => ({ result, testCaseKey })),
+    unmappedResults: unmapped.map(r => ({ id: r.id, status: r.status, error: r.error })),
+  });
+
+  // Nothing to record, so do not leave an empty cycle behind
+  if (byTestCase.size === 0) {
+    return summarize(options.cycleId, false, []);
+  }
+
+  // Reuse the given cycle or create one for this import
+  let cycleId = options.cycleId;
+  let cycleCreated = false;
+  if (!cycleId) {
+    const cycle = await zephyr.createTestCycle({
+      name: options.cycleName || `${options.source} import ${new Date().toISOString()}`,
+      description: `Imported from ${options.source} results`,
+      projectKey: options.projectKey,
+      versionId: options.versionId!,
+      environment: options.environment,
+    });
+    cycleId = cycle.key || cycle.id;
+    cycleCreated = true;
+  }
+
+  // Executions already in the cycle are updated in place when requested
+  const existingExecutions = new Map<string, string>();
+  if (options.updateExistingExecutions && !cycleCreated) {
+    for (const execution of await zephyr.getTestCycleExecutions(cycleId)) {
+      const key = getExecutionTestCaseKey(execution);
+      if (key) existingExecutions.set(key, execution.key || execution.id);
+    }
+  }
+
+  const executions: ImportedExecution[] = [];
+  for (const [testCaseKey, grouped] of byTestCase) {
+    const status = worstStatus(grouped.map(r => r.status));
+    const comment = grouped
+      .filter(r => r.comment)
+      .map(r => (grouped.length > 1 ? `${r.id}: ${r.comment}` : r.comment))
+      .join('\n\n')
+      .slice(0, MAX_COMMENT_LENGTH);
+    const durations = grouped.map(r => r.durationMs).filter((d): d is number => d !== undefined);
+    const executionTime = durations.length > 0 ? durations.reduce((a, b) => a + b, 0) : undefined;
+    const actualEndDate = new Date().toISOString();
+
+    try {
+      // Existing executions are updated or left alone, never duplicated
+      const existingExecutionId = existingExecutions.get(testCaseKey);
+      if (existingExecutionId) {
+        if (status === 'NOT_EXECUTED') {
+          executions.push({
+            testCaseKey,
+            success: true,
+            skipped: true,
+            status,
+            executionKey: existingExecutionId,
+            results: grouped.map(r => r.id),
+          });
+          continue;
+        }
+        const execution = await zephyr.updateTestExecution({
+          executionId: existingExecutionId,
+          status,
+          comment: comment || undefined,
+          executionTime,
+          actualEndDate,
+        });
+        executions.push({
+          testCaseKey,
+          success: true,
+          updated: true,
+          status,
+          executionId: execution.id,
+          executionKey: execution.key,
+          results: grouped.map(r => r.id),
+        });
+        continue;
+      }
+
+      const execution = await zephyr.createTestExecution({
+        projectKey: options.projectKey,
+        testCaseKey,
+        cycleId,
+        status,
+        environment: options.environment,
+        comment: comment || undefined,
+        executionTime,
+        actualEndDate,
+      });
+      executions.push({
+        testCaseKey,
+        success: true,
+        status,
+        executionId: execution.id,
+        executionKey: execution.key,
+        results: grouped.map(r => r.id),
+      });
+    } catch (error: any) {
+      executions.push({
+        testCaseKey,
+        success: false,
+        status,
+        results: grouped.map(r => r.id),
+        error: error.response?.data?.message || error.message,
+      });
+    }
+  }
+
+  return summarize(cycleId, cycleCreated, executions);
+};
+
+export const importJunitResults = async (input: ImportJunitResultsInput) => {
+  const validatedInput = importJunitResultsSchema.parse(input);
+
+  try {
+    const content = await readReportContent(validatedInput.filePath, validatedInput.content);
+    const testCases = parseReport(parseJUnitXml, content, 'JUnit XML');
+
+    if (testCases.length === 0) {
+      return {
+        success: false,
+        error: 'No <testcase> elements found in the JUnit report',
+      };
+    }
+
+    const results: ImportedResult[] = testCases.map(tc => {
+      const id = tc.classname ? `${tc.classname}.${tc.name}` : tc.name;
+      return {
+        id,
+        name: tc.name,
+        status: tc.status,
+        durationMs: tc.durationMs,
+        comment: [tc.message, tc.details].filter(Boolean).join('\n'),
+        keySources: [tc.name, tc.classname || '', ...Object.values(tc.properties)],
+        labelSources: [id, tc.name],
+      };
+    });
+
+    const data = await recordImportedResults(results, {
+      ...validatedInput,
+      source: 'JUnit',
+    });
+
+    return {
+      success: true,
+      data,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+export const importCucumberResults = async (input: ImportCucumberResultsInput) => {
+  const validatedInput = importCucumberResultsSchema.parse(input);
+
+  try {
+    const content = await readReportContent(validatedInput.filePath, validatedInput.content);
+    const scenarios = parseReport(parseCucumberJson, content, 'Cucumber JSON');
+
+    if (scenarios.length === 0) {
+      return {
+        success: false,
+        error: 'No scenarios found in the Cucumber JSON report',
+      };
+    }
+
+    const results: ImportedResult[] = scenarios.map(scenario => {
+      const id = `${scenario.feature}: ${scenario.name}`;
+      return {
+        id,
+        name: scenario.name,
+        status: scenario.status,
+        durationMs: scenario.durationMs,
+        comment: scenario.failedStep
+          ? [`Failed step: ${scenario.failedStep}`, scenario.errorMessage].filter(Boolean).join('\n')
+          : undefined,
+        keySources: scenario.tags.filter(tag => KEY_TAG_PATTERN.test(tag)),
+        labelSources: [id, scenario.name],
+      };
+    });
+
+    const data = await recordImportedResults(results, {
+      ...validatedInput,
+      source: 'Cucumber',
+    });
+
+    return {
+      success: true,
+      data,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+export const importFeatureFiles = async (input: ImportFeatureFilesInput) => {
+  const validatedInput = importFeatureFilesSchema.parse(input);
+
+  try {
+    const zephyr = getZephyrClient();
+    const sources: Array<{ source: string; content: string }> = [];
+    if (validatedInput.content) {
+      sources.push({ source: 'inline', content: validatedInput.content });
+    }
+    for (const filePath of validatedInput.filePaths || []) {
+      sources.push({ source: filePath, content: await readInputFile(filePath) });
+    }
+
+    // Scenario -> test case, tags -> labels, @PROJ-T123 tags -> existing test case
+    const proposals = sources.flatMap(({ source, content }) => {
+      const feature = parseReport(parseFeatureFile, content, 'Gherkin', source === 'inline' ? 'The inline feature' : source);
+      return feature.scenarios.map(scenario => {
+        const existingKey = scenario.tags.find(tag => KEY_TAG_PATTERN.test(tag));
+        const labels = Array.from(new Set([
+          ...feature.tags,
+          ...scenario.tags,
+          ...(validatedInput.labels || []),
+        ].filter(tag => !KEY_TAG_PATTERN.test(tag))));
+
+        return {
+          source: `${source}:${scenario.line}`,
+          feature: feature.name,
+          name: scenario.name,
+          labels,
+          existingKey,
+          action: existingKey ? (validatedInput.updateExisting ? 'UPDATE' : 'SKIP') : 'CREATE',
+          script: toBddScript(feature, scenario),
+        };
+      });
+    });
+
+    if (proposals.length === 0) {
+      return {
+        success: false,
+        error: 'No scenarios found in the given feature files',
+      };
+    }
+
+    if (validatedInput.dryRun) {
+      return {
+        success: true,
+        data: {
+          dryRun: true,
+          testCases: proposals,
+        },
+      };
+    }
+
+    let folderId = validatedInput.folderId;
+    if (validatedInput.folderPath) {
+      folderId = String((await zephyr.resolveFolderPath(validatedInput.projectKey, validatedInput.folderPath, 'TEST_CASE', true)).id);
+    }
+
+    const results = [];
+    for (const proposal of proposals) {
+      if (proposal.action === 'SKIP') {
+        results.push({ source: proposal.source, name: proposal.name, testCaseKey: proposal.existingKey, action: 'SKIP', success: true });
+        continue;
+      }
+
+      try {
+        let testCaseKey = proposal.existingKey;
+        if (proposal.action === 'UPDATE' && testCaseKey) {
+          const existing = await zephyr.getTestCase(testCaseKey);
+          await zephyr.updateTestCase(testCaseKey, {
+            labels: Array.from(new Set([...getLabelNames(existing), ...proposal.labels])),
+            testScript: { type: 'BDD', text: proposal.script },
+          });
+        } else {
+          const testCase = await zephyr.createTestCase({
+            projectKey: validatedInput.projectKey,
+            name: proposal.name,
+            objective: proposal.feature ? `Feature: ${proposal.feature}` : undefined,
+            folderId,
+            labels: proposal.labels,
+            testScript: { type: 'BDD', text: proposal.script },
+          });
+          testCaseKey = testCase.key;
+        }
+        results.push({ source: proposal.source, name: proposal.name, testCaseKey, action: proposal.action, success: true });
+      } catch (error: any) {
+        results.push({
+          source: proposal.source,
+          name: proposal.name,
+          testCaseKey: proposal.existingKey,
+          action: proposal.action,
+          success: false,
+          error: error.response?.data?.message || error.message,
+        });
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        results,
+        summary: {
+          total: results.length,
+          created: results.filter(r => r.success && r.action === 'CREATE').length,
+          updated: results.filter(r => r.success && r.action === 'UPDATE').length,
+          skipped: results.filter(r => r.action === 'SKIP').length,
+          failed: results.filter(r => !r.success).length,
+        },
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
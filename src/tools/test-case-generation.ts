@@ -0,0 +1,135 @@
+import { ZephyrClient } from '../clients/zephyr-client.js';
+import { JiraClient } from '../clients/jira-client.js';
+import { createMultipleTestCases } from './test-cases.js';
+import { adfToMarkdown } from '../utils/adf.js';
+import { parseAcceptanceCriteria, AcceptanceCriterion } from '../utils/acceptance-criteria.js';
+import {
+  generateTestCasesFromIssueSchema,
+  GenerateTestCasesFromIssueInput,
+  CreateTestCaseInput,
+} from '../utils/validation.js';
+
+let zephyrClient: ZephyrClient | null = null;
+let jiraClient: JiraClient | null = null;
+
+const getZephyrClient = (): ZephyrClient => {
+  if (!zephyrClient) {
+    zephyrClient = new ZephyrClient();
+  }
+  return zephyrClient;
+};
+
+const getJiraClient = (): JiraClient => {
+  if (!jiraClient) {
+    jiraClient = new JiraClient();
+  }
+  return jiraClient;
+};
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length - 3).trimEnd()}...` : text;
+
+const toTestCase = (
+  criterion: AcceptanceCriterion,
+  index: number,
+  issue: { key: string; summary: string },
+  options: GenerateTestCasesFromIssueInput & { projectKey: string }
+): CreateTestCaseInput => ({
+  projectKey: options.projectKey,
+  name: truncate(criterion.title || `${issue.summary} - scenario ${index + 1}`, 255),
+  objective: `Verifies acceptance criterion ${index + 1} of ${issue.key}: ${issue.summary}`,
+  precondition: criterion.preconditions.length > 0 ? criterion.preconditions.join('\n') : undefined,
+  priority: options.priority,
+  status: options.status,
+  folderId: options.folderId,
+  folderPath: options.folderPath,
+  labels: options.labels,
+  testScript: {
+    type: 'STEP_BY_STEP',
+    steps: criterion.steps.map((step, stepIndex) => ({
+      index: stepIndex + 1,
+      description: step.action,
+      expectedResult: step.expected.length > 0 ? step.expected.join('\n') : 'Step completes without errors',
+    })),
+  },
+});
+
+export const generateTestCasesFromIssue = async (input: GenerateTestCasesFromIssueInput) => {
+  const validatedInput = generateTestCasesFromIssueSchema.parse(input);
+
+  try {
+    const issue = await getJiraClient().getIssue(validatedInput.issueKey, ['summary', 'description', 'project']);
+    const projectKey = validatedInput.projectKey || issue.fields.project.key;
+    const criteria = parseAcceptanceCriteria(adfToMarkdown(issue.fields.description));
+
+    if (criteria.length === 0) {
+      return {
+        success: false,
+        error: `No acceptance criteria found in the description of ${issue.key}`,
+      };
+    }
+
+    const testCases = criteria.map((criterion, index) =>
+      toTestCase(criterion, index, { key: issue.key, summary: issue.fields.summary }, { ...validatedInput, projectKey })
+    );
+
+    if (!validatedInput.confirm) {
+      return {
+        success: true,
+        data: {
+          issueKey: issue.key,
+          created: false,
+          proposedTestCases: testCases,
+          message: `Proposed ${testCases.length} test case(s) from ${issue.key}. Call again with confirm: true to create them.`,
+        },
+      };
+    }
+
+    const result = await createMultipleTestCases({
+      testCases,
+      continueOnError: validatedInput.continueOnError,
+    });
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    const results = [];
+    for (const created of result.data.results) {
+      const key = created.testCase?.key;
+      let linked = false;
+      let linkError: string | undefined;
+      if (created.success && key) {
+        try {
+          await getZephyrClient().linkTestCaseToIssue(key, issue.key);
+          linked = true;
+        } catch (error: any) {
+          linkError = error.response?.data?.message || error.message;
+        }
+      }
+      results.push({
+        index: created.index,
+        success: created.success,
+        testCaseKey: key,
+        name: created.testCase?.name ?? testCases[created.index]?.name,
+        linked,
+        error: created.error || linkError,
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        issueKey: issue.key,
+        created: true,
+        results,
+        summary: result.data.summary,
+        message: `Created ${results.filter(r => r.success).length} of ${testCases.length} test case(s) and linked them to ${issue.key}`,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.errorMessages?.[0] || error.response?.data?.message || error.message,
+    };
+  }
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ZephyrTestCase } from '../types/zephyr-types.js';
+import { matchesTestCaseFilters } from './test-cases.js';
+
+const testCase = (overrides: Partial<ZephyrTestCase> = {}): ZephyrTestCase => ({
+  id: 1,
+  key: 'PROJ-T1',
+  name: 'Login with valid credentials',
+  createdOn: '2024-03-01T10:00:00Z',
+  labels: ['smoke', 'auth'],
+  folder: { id: 42, self: 'https://api/folders/42' },
+  ...overrides,
+});
+
+const defaults = { searchMode: 'AND' as const, caseSensitive: false, folderPathIds: null };
+
+describe('matchesTestCaseFilters', () => {
+  it('matches everything when no filter is set', () => {
+    expect(matchesTestCaseFilters(testCase(), {}, defaults)).toBe(true);
+  });
+
+  it('compares numeric folder IDs with the string filter', () => {
+    expect(matchesTestCaseFilters(testCase(), { folderId: '42' }, defaults)).toBe(true);
+    expect(matchesTestCaseFilters(testCase(), { folderId: '7' }, defaults)).toBe(false);
+    expect(matchesTestCaseFilters(testCase({ folder: undefined }), { folderId: '42' }, defaults)).toBe(false);
+  });
+
+  it('matches folder paths through the resolved folder IDs', () => {
+    const options = { ...defaults, folderPathIds: new Set(['40', '42']) };
+    expect(matchesTestCaseFilters(testCase(), { folderPath: '/Regression' }, options)).toBe(true);
+    expect(matchesTestCaseFilters(testCase({ folder: { id: 9, self: '' } }), { folderPath: '/Regression' }, options)).toBe(false);
+  });
+
+  it('honours case sensitivity for title filters', () => {
+    expect(matchesTestCaseFilters(testCase(), { titleContains: 'LOGIN' }, defaults)).toBe(true);
+    expect(matchesTestCaseFilters(testCase(), { titleContains: 'LOGIN' }, { ...defaults, caseSensitive: true })).toBe(false);
+  });
+
+  it('matches any of the given labels', () => {
+    expect(matchesTestCaseFilters(testCase(), { labels: ['regression', 'Smoke'] }, defaults)).toBe(true);
+    expect(matchesTestCaseFilters(testCase(), { labels: ['regression'] }, defaults)).toBe(false);
+  });
+
+  it('combines filters with AND or OR', () => {
+    const filters = { titleStartsWith: 'Login', labels: ['regression'] };
+    expect(matchesTestCaseFilters(testCase(), filters, defaults)).toBe(false);
+    expect(matchesTestCaseFilters(testCase(), filters, { ...defaults, searchMode: 'OR' })).toBe(true);
+  });
+
+  it('filters by creation date', () => {
+    expect(matchesTestCaseFilters(testCase(), { createdAfter: '2024-02-01' }, defaults)).toBe(true);
+    expect(matchesTestCaseFilters(testCase(), { createdBefore: '2024-02-01' }, defaults)).toBe(false);
+  });
+});
@@ -1,4 +1,6 @@
 import { ZephyrClient } from '../clients/zephyr-client.js';
+import { ZephyrTestCase } from '../types/zephyr-types.js';
+import { createLogger } from '../utils/logger.js';
 import {
   createTestCaseSchema,
   createMultipleTestCasesSchema,
@@ -10,6 +12,8 @@ import {
   UpdateTestCaseInput,
 } from '../utils/validation.js';
 
+const logger = createLogger('test-cases');
+
 let zephyrClient: ZephyrClient | null = null;
 
 const getZephyrClient = (): ZephyrClient => {
@@ -19,10 +23,256 @@ const getZephyrClient = (): ZephyrClient => {
   return zephyrClient;
 };
 
+const getProjectKeyFromTestCaseKey = (testCaseKey: string) => testCaseKey.split('-T')[0];
+
+// Resolve the folder at folderPath and all of its subfolders to folder IDs
+const getFolderIdsUnderPath = async (projectKey: string, folderPath: string): Promise<Set<string>> => {
+  const zephyr = getZephyrClient();
+  const root = await zephyr.resolveFolderPath(projectKey, folderPath, 'TEST_CASE');
+  const folders = await zephyr.getAllFolders(projectKey, 'TEST_CASE');
+
+  const ids = new Set<string>([String(root.id)]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parentId !== null && ids.has(String(folder.parentId)) && !ids.has(String(folder.id))) {
+        ids.add(String(folder.id));
+        added = true;
+      }
+    }
+  }
+  return ids;
+};
+
+type TestCaseFilters = NonNullable<GetTestCasesInput['filters']>;
+
+interface TestCaseFilterOptions {
+  searchMode: 'AND' | 'OR';
+  caseSensitive: boolean;
+  folderPathIds: Set<string> | null;
+}
+
+export const matchesTestCaseFilters = (
+  testCase: ZephyrTestCase,
+  filters: TestCaseFilters,
+  { searchMode, caseSensitive, folderPathIds }: TestCaseFilterOptions
+): boolean => {
+  const matches: boolean[] = [];
+  
+  // Title filters
+  if (filters.title !== undefined) {
+    const titleMatch = caseSensitive 
+      ? testCase.name === filters.title
+      : testCase.name?.toLowerCase() === filters.title.toLowerCase();
+    matches.push(titleMatch);
+  }
+  
+  if (filters.titleContains !== undefined) {
+    const contains = caseSensitive
+      ? testCase.name?.includes(filters.titleContains)
+      : testCase.name?.toLowerCase().includes(filters.titleContains.toLowerCase());
+    matches.push(contains || false);
+  }
+  
+  if (filters.titleStartsWith !== undefined) {
+    const startsWith = caseSensitive
+      ? testCase.name?.startsWith(filters.titleStartsWith)
+      : testCase.name?.toLowerCase().startsWith(filters.titleStartsWith.toLowerCase());
+    matches.push(startsWith || false);
+  }
+  
+  if (filters.titleEndsWith !== undefined) {
+    const endsWith = caseSensitive
+      ? testCase.name?.endsWith(filters.titleEndsWith)
+      : testCase.name?.toLowerCase().endsWith(filters.titleEndsWith.toLowerCase());
+    matches.push(endsWith || false);
+  }
+  
+  // Content filters
+  if (filters.objectiveContains !== undefined) {
+    const contains = caseSensitive
+      ? testCase.objective?.includes(filters.objectiveContains)
+      : testCase.objective?.toLowerCase().includes(filters.objectiveContains.toLowerCase());
+    matches.push(contains || false);
+  }
+  
+  if (filters.preconditionContains !== undefined) {
+    const contains = caseSensitive
+      ? testCase.precondition?.includes(filters.preconditionContains)
+      : testCase.precondition?.toLowerCase().includes(filters.preconditionContains.toLowerCase());
+    matches.push(contains || false);
+  }
+  
+  // Status filter
+  if (filters.status !== undefined) {
+    const statusList = Array.isArray(filters.status) ? filters.status : [filters.status];
+    const statusMatch = statusList.some(s => {
+      const statusName = typeof testCase.status === 'object' ? testCase.status?.name : testCase.status;
+      return caseSensitive
+        ? statusName === s
+        : statusName?.toLowerCase() === s.toLowerCase();
+    });
+    matches.push(statusMatch);
+  }
+  
+  // Priority filter
+  if (filters.priority !== undefined) {
+    const priorityList = Array.isArray(filters.priority) ? filters.priority : [filters.priority];
+    const priorityMatch = priorityList.some(p => {
+      const priorityName = typeof testCase.priority === 'object' ? testCase.priority?.name : testCase.priority;
+      return caseSensitive
+        ? priorityName === p
+        : priorityName?.toLowerCase() === p.toLowerCase();
+    });
+    matches.push(priorityMatch);
+  }
+  
+  // Folder filter - handle different folder structures
+  if (filters.folderId !== undefined) {
+    // Zephyr returns folder IDs as numbers while the filter takes a string
+    const folderId = testCase.folder?.id ?? testCase.folderId;
+    matches.push(folderId !== undefined && folderId !== null && String(folderId) === filters.folderId);
+  }
+  
+  if (filters.folderPath !== undefined && folderPathIds) {
+    const folderId = testCase.folder?.id;
+    matches.push(folderId !== undefined && folderPathIds.has(String(folderId)));
+  }
+  
+  // Labels filter - handle different label structures
+  if (filters.labels !== undefined && filters.labels.length > 0) {
+    // Get labels from various possible locations
+    let testCaseLabels: string[] = [];
+    
+    if (Array.isArray(testCase.labels)) {
+      testCaseLabels = testCase.labels.map(label => 
+        typeof label === 'object' ? (label.name || label.value || String(label)) : String(label)
+      );
+    } else if (typeof testCase.labels === 'string') {
+      // Handle comma-separated labels
+      testCaseLabels = testCase.labels.split(',').map(l => l.trim());
+    } else if (testCase.labels && typeof testCase.labels === 'object') {
+      // Handle object with name property
+      testCaseLabels = [testCase.labels.name || testCase.labels.value || String(testCase.labels)];
+    }
+    
+    // Check if any of the filter labels match
+    const labelMatch = filters.labels.some(filterLabel => 
+      testCaseLabels.some(tcLabel => {
+        const normalizedTcLabel = caseSensitive ? tcLabel : tcLabel.toLowerCase();
+        const normalizedFilterLabel = caseSensitive ? filterLabel : filterLabel.toLowerCase();
+        return normalizedTcLabel === normalizedFilterLabel || 
+               normalizedTcLabel.includes(normalizedFilterLabel);
+      })
+    );
+    matches.push(labelMatch);
+  }
+  
+  // Component filter
+  if (filters.componentId !== undefined) {
+    const componentMatch = testCase.component?.id === filters.componentId;
+    matches.push(componentMatch);
+  }
+  
+  // Owner filter
+  if (filters.owner !== undefined) {
+    const ownerMatch = testCase.owner?.accountId === filters.owner || 
+                     testCase.owner?.emailAddress === filters.owner;
+    matches.push(ownerMatch);
+  }
+  
+  // Date filters
+  if (filters.createdAfter !== undefined) {
+    const createdDate = new Date(testCase.createdOn);
+    const filterDate = new Date(filters.createdAfter);
+    matches.push(createdDate >= filterDate);
+  }
+  
+  if (filters.createdBefore !== undefined) {
+    const createdDate = new Date(testCase.createdOn);
+    const filterDate = new Date(filters.createdBefore);
+    matches.push(createdDate <= filterDate);
+  }
+  
+  if (filters.modifiedAfter !== undefined && testCase.lastModifiedOn) {
+    const modifiedDate = new Date(testCase.lastModifiedOn);
+    const filterDate = new Date(filters.modifiedAfter);
+    matches.push(modifiedDate >= filterDate);
+  }
+  
+  if (filters.modifiedBefore !== undefined && testCase.lastModifiedOn) {
+    const modifiedDate = new Date(testCase.lastModifiedOn);
+    const filterDate = new Date(filters.modifiedBefore);
+    matches.push(modifiedDate <= filterDate);
+  }
+  
+  // Test execution filters
+  if (filters.hasLinkedIssues !== undefined) {
+    const hasLinks = (testCase.links?.issues?.length || 0) > 0;
+    matches.push(hasLinks === filters.hasLinkedIssues);
+  }
+  
+  if (filters.hasTestSteps !== undefined) {
+    const hasSteps = testCase.testScript?.type === 'STEP_BY_STEP' && 
+                   (testCase.testScript?.steps?.length || 0) > 0;
+    matches.push(hasSteps === filters.hasTestSteps);
+  }
+  
+  if (filters.estimatedTimeMin !== undefined) {
+    matches.push((testCase.estimatedTime || 0) >= filters.estimatedTimeMin);
+  }
+  
+  if (filters.estimatedTimeMax !== undefined) {
+    matches.push((testCase.estimatedTime || 0) <= filters.estimatedTimeMax);
+  }
+  
+  // Test type filter
+  if (filters.testType !== undefined) {
+    const testTypeMatch = testCase.testType === filters.testType;
+    matches.push(testTypeMatch);
+  }
+  
+  // Test script type filter
+  if (filters.testScriptType !== undefined) {
+    const scriptTypeMatch = filters.testScriptType === 'NONE' 
+      ? !testCase.testScript || !testCase.testScript.type
+      : testCase.testScript?.type === filters.testScriptType;
+    matches.push(scriptTypeMatch);
+  }
+  
+  // Custom fields filter
+  if (filters.customFields !== undefined) {
+    const customFieldMatches = Object.entries(filters.customFields).every(([key, value]) => {
+      return testCase.customFields?.[key] === value;
+    });
+    matches.push(customFieldMatches);
+  }
+  
+  // Apply search mode (AND/OR)
+  if (matches.length === 0) return true; // No filters applied
+  return searchMode === 'AND' 
+    ? matches.every(m => m)
+    : matches.some(m => m);
+};
+
+// Every test case in the project that matches all of the filters, read across all pages
+export const findAllTestCases = async (projectKey: string, filters: TestCaseFilters): Promise<ZephyrTestCase[]> => {
+  const testCases = await getZephyrClient().getAllTestCases(projectKey);
+  const folderPathIds = filters.folderPath ? await getFolderIdsUnderPath(projectKey, filters.folderPath) : null;
+  return testCases.filter(testCase =>
+    matchesTestCaseFilters(testCase, filters, { searchMode: 'AND', caseSensitive: false, folderPathIds })
+  );
+};
+
 export const createTestCase = async (input: CreateTestCaseInput) => {
   const validatedInput = createTestCaseSchema.parse(input);
   
   try {
+    const folderId = validatedInput.folderPath
+      ? String((await getZephyrClient().resolveFolderPath(validatedInput.projectKey, validatedInput.folderPath)).id)
+      : validatedInput.folderId;
+
     const testCase = await getZephyrClient().createTestCase({
       projectKey: validatedInput.projectKey,
       name: validatedInput.name,
@@ -31,7 +281,7 @@ export const createTestCase = async (input: CreateTestCaseInput) => {
       estimatedTime: validatedInput.estimatedTime,
       priority: validatedInput.priority,
       status: validatedInput.status,
-      folderId: validatedInput.folderId,
+      folderId,
       labels: validatedInput.labels,
       componentId: validatedInput.componentId,
       customFields: validatedInput.customFields,
@@ -44,7 +294,7 @@ export const createTestCase = async (input: CreateTestCaseInput) => {
       try {
         steps = await getZephyrClient().getTestCaseSteps(testCase.key);
       } catch (error) {
-        console.warn('Failed to retrieve test steps:', error);
+        logger.warn('Failed to retrieve test steps', error);
       }
     }
     
@@ -106,10 +356,20 @@ export const updateTestCase = async (input: UpdateTestCaseInput) => {
       original: originalTestCase,
     } : null;
     
+    // Resolve a folder path to the folder ID the API expects
+    const { folderPath, ...updates } = validatedInput.updates;
+    if (folderPath) {
+      const folder = await zephyr.resolveFolderPath(
+        getProjectKeyFromTestCaseKey(validatedInput.testCaseId),
+        folderPath
+      );
+      updates.folderId = String(folder.id);
+    }
+    
     // Perform the update
     const updatedTestCase = await zephyr.updateTestCase(
       validatedInput.testCaseId,
-      validatedInput.updates
+      updates
     );
     
     // Get updated test case with steps if requested
@@ -128,7 +388,7 @@ export const updateTestCase = async (input: UpdateTestCaseInput) => {
             expectedResult: step.inline?.expectedResult || step.expectedResult,
           }));
         } catch (error) {
-          console.warn('Failed to retrieve updated steps:', error);
+          logger.warn('Failed to retrieve updated steps', error);
         }
       }
     }
@@ -226,6 +486,17 @@ export const getTestCase = async (input: { testCaseId: string }) => {
   }
 };
 
+// Raw API responses, for troubleshooting step parsing
+export const debugTestCaseSteps = async (input: { testCaseId: string }) => ({
+  success: true,
+  data: await getZephyrClient().debugTestCaseSteps(input.testCaseId),
+});
+
+export const debugTestCaseInfo = async (input: { testCaseId: string }) => ({
+  success: true,
+  data: await getZephyrClient().debugTestCaseInfo(input.testCaseId),
+});
+
 export const getTestCases = async (input: GetTestCasesInput) => {
   const validatedInput = getTestCasesSchema.parse(input);
   
@@ -239,7 +510,7 @@ export const getTestCases = async (input: GetTestCasesInput) => {
       validatedInput.offset || 0
     );
     
-    console.log(`Retrieved ${allTestCases.testCases.length} test cases for filtering`);
+    logger.debug(`Retrieved ${allTestCases.testCases.length} test cases for filtering`);
     
     // Check if we need to fetch additional details for folder/label filtering
     const needsFolderOrLabelDetails = validatedInput.filters && (
@@ -256,14 +527,14 @@ export const getTestCases = async (input: GetTestCasesInput) => {
       const hasCompleteData = sample.folder || sample.labels;
       
       if (!hasCompleteData) {
-        console.log('Fetching additional test case details for folder/label filtering...');
+        logger.debug('Fetching additional test case details for folder/label filtering...');
         enrichedTestCases = await Promise.all(
           allTestCases.testCases.slice(0, Math.min(allTestCases.testCases.length, 200)).map(async (tc) => {
             try {
               const detailed = await zephyr.getTestCase(tc.key);
               return { ...tc, ...detailed };
             } catch (error) {
-              console.warn(`Failed to get details for ${tc.key}, using basic data`);
+              logger.warn(`Failed to get details for ${tc.key}, using basic data`);
               return tc;
             }
           })
@@ -273,227 +544,20 @@ export const getTestCases = async (input: GetTestCasesInput) => {
     
     let filteredTestCases = enrichedTestCases;
     
+    // Folder paths are resolved up front so the filter can compare folder IDs
+    const folderPathIds = validatedInput.filters?.folderPath
+      ? await getFolderIdsUnderPath(validatedInput.projectKey, validatedInput.filters.folderPath)
+      : null;
+    
     // Apply filters if provided
     if (validatedInput.filters) {
       const filters = validatedInput.filters;
-      const searchMode = validatedInput.searchMode || 'AND';
-      const caseSensitive = validatedInput.caseSensitive || false;
-      
-      filteredTestCases = filteredTestCases.filter(testCase => {
-        const matches: boolean[] = [];
-        
-        // Title filters
-        if (filters.title !== undefined) {
-          const titleMatch = caseSensitive 
-            ? testCase.name === filters.title
-            : testCase.name?.toLowerCase() === filters.title.toLowerCase();
-          matches.push(titleMatch);
-        }
-        
-        if (filters.titleContains !== undefined) {
-          const contains = caseSensitive
-            ? testCase.name?.includes(filters.titleContains)
-            : testCase.name?.toLowerCase().includes(filters.titleContains.toLowerCase());
-          matches.push(contains || false);
-        }
-        
-        if (filters.titleStartsWith !== undefined) {
-          const startsWith = caseSensitive
-            ? testCase.name?.startsWith(filters.titleStartsWith)
-            : testCase.name?.toLowerCase().startsWith(filters.titleStartsWith.toLowerCase());
-          matches.push(startsWith || false);
-        }
-        
-        if (filters.titleEndsWith !== undefined) {
-          const endsWith = caseSensitive
-            ? testCase.name?.endsWith(filters.titleEndsWith)
-            : testCase.name?.toLowerCase().endsWith(filters.titleEndsWith.toLowerCase());
-          matches.push(endsWith || false);
-        }
-        
-        // Content filters
-        if (filters.objectiveContains !== undefined) {
-          const contains = caseSensitive
-            ? testCase.objective?.includes(filters.objectiveContains)
-            : testCase.objective?.toLowerCase().includes(filters.objectiveContains.toLowerCase());
-          matches.push(contains || false);
-        }
-        
-        if (filters.preconditionContains !== undefined) {
-          const contains = caseSensitive
-            ? testCase.precondition?.includes(filters.preconditionContains)
-            : testCase.precondition?.toLowerCase().includes(filters.preconditionContains.toLowerCase());
-          matches.push(contains || false);
-        }
-        
-        // Status filter
-        if (filters.status !== undefined) {
-          const statusList = Array.isArray(filters.status) ? filters.status : [filters.status];
-          const statusMatch = statusList.some(s => {
-            const statusName = typeof testCase.status === 'object' ? testCase.status?.name : testCase.status;
-            return caseSensitive
-              ? statusName === s
-              : statusName?.toLowerCase() === s.toLowerCase();
-          });
-          matches.push(statusMatch);
-        }
-        
-        // Priority filter
-        if (filters.priority !== undefined) {
-          const priorityList = Array.isArray(filters.priority) ? filters.priority : [filters.priority];
-          const priorityMatch = priorityList.some(p => {
-            const priorityName = typeof testCase.priority === 'object' ? testCase.priority?.name : testCase.priority;
-            return caseSensitive
-              ? priorityName === p
-              : priorityName?.toLowerCase() === p.toLowerCase();
-          });
-          matches.push(priorityMatch);
-        }
-        
-        // Folder filter - handle different folder structures
-        if (filters.folderId !== undefined) {
-          // Check various possible folder ID locations
-          const folderId = testCase.folder?.id || 
-                          testCase.folderId || 
-                          (typeof testCase.folder === 'string' ? testCase.folder : null);
-          const folderMatch = folderId === filters.folderId;
-          matches.push(folderMatch);
-        }
-        
-        if (filters.folderPath !== undefined) {
-          // Check various possible folder path locations
-          const folderPath = testCase.folder?.name || 
-                           testCase.folder?.path || 
-                           testCase.folderName ||
-                           (typeof testCase.folder === 'string' ? testCase.folder : null);
-          
-          if (folderPath) {
-            // Handle both exact match and path contains
-            const pathMatch = caseSensitive
-              ? (folderPath === filters.folderPath || folderPath.includes(filters.folderPath))
-              : (folderPath.toLowerCase() === filters.folderPath.toLowerCase() || 
-                 folderPath.toLowerCase().includes(filters.folderPath.toLowerCase()));
-            matches.push(pathMatch);
-          } else {
-            matches.push(false);
-          }
-        }
-        
-        // Labels filter - handle different label structures
-        if (filters.labels !== undefined && filters.labels.length > 0) {
-          // Get labels from various possible locations
-          let testCaseLabels: string[] = [];
-          
-          if (Array.isArray(testCase.labels)) {
-            testCaseLabels = testCase.labels.map(label => 
-              typeof label === 'object' ? (label.name || label.value || String(label)) : String(label)
-            );
-          } else if (typeof testCase.labels === 'string') {
-            // Handle comma-separated labels
-            testCaseLabels = testCase.labels.split(',').map(l => l.trim());
-          } else if (testCase.labels && typeof testCase.labels === 'object') {
-            // Handle object with name property
-            testCaseLabels = [testCase.labels.name || testCase.labels.value || String(testCase.labels)];
-          }
-          
-          // Check if any of the filter labels match
-          const labelMatch = filters.labels.some(filterLabel => 
-            testCaseLabels.some(tcLabel => {
-              const normalizedTcLabel = caseSensitive ? tcLabel : tcLabel.toLowerCase();
-              const normalizedFilterLabel = caseSensitive ? filterLabel : filterLabel.toLowerCase();
-              return normalizedTcLabel === normalizedFilterLabel || 
-                     normalizedTcLabel.includes(normalizedFilterLabel);
-            })
-          );
-          matches.push(labelMatch);
-        }
-        
-        // Component filter
-        if (filters.componentId !== undefined) {
-          const componentMatch = testCase.component?.id === filters.componentId;
-          matches.push(componentMatch);
-        }
-        
-        // Owner filter
-        if (filters.owner !== undefined) {
-          const ownerMatch = testCase.owner?.accountId === filters.owner || 
-                           testCase.owner?.emailAddress === filters.owner;
-          matches.push(ownerMatch);
-        }
-        
-        // Date filters
-        if (filters.createdAfter !== undefined) {
-          const createdDate = new Date(testCase.createdOn);
-          const filterDate = new Date(filters.createdAfter);
-          matches.push(createdDate >= filterDate);
-        }
-        
-        if (filters.createdBefore !== undefined) {
-          const createdDate = new Date(testCase.createdOn);
-          const filterDate = new Date(filters.createdBefore);
-          matches.push(createdDate <= filterDate);
-        }
-        
-        if (filters.modifiedAfter !== undefined && testCase.lastModifiedOn) {
-          const modifiedDate = new Date(testCase.lastModifiedOn);
-          const filterDate = new Date(filters.modifiedAfter);
-          matches.push(modifiedDate >= filterDate);
-        }
-        
-        if (filters.modifiedBefore !== undefined && testCase.lastModifiedOn) {
-          const modifiedDate = new Date(testCase.lastModifiedOn);
-          const filterDate = new Date(filters.modifiedBefore);
-          matches.push(modifiedDate <= filterDate);
-        }
-        
-        // Test execution filters
-        if (filters.hasLinkedIssues !== undefined) {
-          const hasLinks = (testCase.links?.issues?.length || 0) > 0;
-          matches.push(hasLinks === filters.hasLinkedIssues);
-        }
-        
-        if (filters.hasTestSteps !== undefined) {
-          const hasSteps = testCase.testScript?.type === 'STEP_BY_STEP' && 
-                         (testCase.testScript?.steps?.length || 0) > 0;
-          matches.push(hasSteps === filters.hasTestSteps);
-        }
-        
-        if (filters.estimatedTimeMin !== undefined) {
-          matches.push((testCase.estimatedTime || 0) >= filters.estimatedTimeMin);
-        }
-        
-        if (filters.estimatedTimeMax !== undefined) {
-          matches.push((testCase.estimatedTime || 0) <= filters.estimatedTimeMax);
-        }
-        
-        // Test type filter
-        if (filters.testType !== undefined) {
-          const testTypeMatch = testCase.testType === filters.testType;
-          matches.push(testTypeMatch);
-        }
-        
-        // Test script type filter
-        if (filters.testScriptType !== undefined) {
-          const scriptTypeMatch = filters.testScriptType === 'NONE' 
-            ? !testCase.testScript || !testCase.testScript.type
-            : testCase.testScript?.type === filters.testScriptType;
-          matches.push(scriptTypeMatch);
-        }
-        
-        // Custom fields filter
-        if (filters.customFields !== undefined) {
-          const customFieldMatches = Object.entries(filters.customFields).every(([key, value]) => {
-            return testCase.customFields?.[key] === value;
-          });
-          matches.push(customFieldMatches);
-        }
-        
-        // Apply search mode (AND/OR)
-        if (matches.length === 0) return true; // No filters applied
-        return searchMode === 'AND' 
-          ? matches.every(m => m)
-          : matches.some(m => m);
-      });
+      const options: TestCaseFilterOptions = {
+        searchMode: validatedInput.searchMode || 'AND',
+        caseSensitive: validatedInput.caseSensitive || false,
+        folderPathIds,
+      };
+      filteredTestCases = filteredTestCases.filter(testCase => matchesTestCaseFilters(testCase, filters, options));
     }
     
     // Sort results
@@ -551,7 +615,7 @@ export const getTestCases = async (input: GetTestCasesInput) => {
             try {
               enriched.steps = await zephyr.getTestCaseSteps(testCase.key);
             } catch (error) {
-              console.warn(`Failed to get steps for ${testCase.key}:`, error);
+              logger.warn(`Failed to get steps for ${testCase.key}`, error);
               enriched.steps = [];
             }
           }
@@ -561,7 +625,7 @@ export const getTestCases = async (input: GetTestCasesInput) => {
               const detailed = await zephyr.getTestCase(testCase.key);
               Object.assign(enriched, detailed);
             } catch (error) {
-              console.warn(`Failed to get details for ${testCase.key}:`, error);
+              logger.warn(`Failed to get details for ${testCase.key}`, error);
             }
           }
           
@@ -576,6 +640,9 @@ export const getTestCases = async (input: GetTestCasesInput) => {
         testCases: finalTestCases,
         total: filteredTestCases.length,
         totalAvailable: allTestCases.total,
+        // Filters apply within the page read from Zephyr; continue from nextOffset for more
+        isLast: allTestCases.isLast,
+        nextOffset: allTestCases.nextStartAt,
         filters: validatedInput.filters,
         searchMode: validatedInput.searchMode,
         sortBy: validatedInput.sortBy,
@@ -600,8 +667,24 @@ export const createMultipleTestCases = async (input: CreateMultipleTestCasesInpu
   const validatedInput = createMultipleTestCasesSchema.parse(input);
   
   try {
+    // Resolve folder paths once per project/path before creating anything
+    const folderIds = new Map<string, string>();
+    const testCases = [];
+    for (const testCase of validatedInput.testCases) {
+      if (!testCase.folderPath) {
+        testCases.push(testCase);
+        continue;
+      }
+      const cacheKey = `${testCase.projectKey}:${testCase.folderPath}`;
+      if (!folderIds.has(cacheKey)) {
+        const folder = await getZephyrClient().resolveFolderPath(testCase.projectKey, testCase.folderPath);
+        folderIds.set(cacheKey, String(folder.id));
+      }
+      testCases.push({ ...testCase, folderId: folderIds.get(cacheKey) });
+    }
+    
     const result = await getZephyrClient().createMultipleTestCases(
-      validatedInput.testCases,
+      testCases,
       validatedInput.continueOnError
     );
     
@@ -616,7 +699,7 @@ export const createMultipleTestCases = async (input: CreateMultipleTestCasesInpu
             try {
               steps = await getZephyrClient().getTestCaseSteps(r.data.key);
             } catch (error) {
-              console.warn(`Failed to retrieve test steps for ${r.data.key}:`, error);
+              logger.warn(`Failed to retrieve test steps for ${r.data.key}`, error);
             }
           }
           
@@ -1,9 +1,20 @@
 import { ZephyrClient } from '../clients/zephyr-client.js';
+import { ZephyrTestCycle } from '../types/zephyr-types.js';
+import { getAppConfig } from '../utils/config.js';
+import { getLatestExecutionsByTestCase, normalizeStatus } from '../utils/executions.js';
 import {
   createTestCycleSchema,
   listTestCyclesSchema,
+  getTestCycleSchema,
+  updateTestCycleSchema,
+  deleteTestCycleSchema,
+  createRerunCycleSchema,
   CreateTestCycleInput,
   ListTestCyclesInput,
+  GetTestCycleInput,
+  UpdateTestCycleInput,
+  DeleteTestCycleInput,
+  CreateRerunCycleInput,
 } from '../utils/validation.js';
 
 let zephyrClient: ZephyrClient | null = null;
@@ -61,13 +72,16 @@ export const listTestCycles = async (input: ListTestCyclesInput) => {
     const result = await getZephyrClient().getTestCycles(
       validatedInput.projectKey,
       validatedInput.versionId,
-      validatedInput.limit
+      validatedInput.limit,
+      validatedInput.offset
     );
     
     return {
       success: true,
       data: {
         total: result.total,
+        isLast: result.isLast,
+        nextOffset: result.nextStartAt,
         testCycles: result.testCycles.map(cycle => ({
           id: cycle.id,
           key: cycle.key,
@@ -105,36 +119,233 @@ export const listTestCycles = async (input: ListTestCyclesInput) => {
   }
 };
 
-export const getTestCycle = async (input: { cycleId: string }) => {
+const formatTestCycle = (testCycle: ZephyrTestCycle) => ({
+  id: testCycle.id,
+  key: testCycle.key,
+  name: testCycle.name,
+  description: testCycle.description,
+  projectId: testCycle.projectId,
+  versionId: testCycle.versionId,
+  environment: testCycle.environment,
+  status: testCycle.status,
+  folderId: testCycle.folder?.id ?? null,
+  ownerId: testCycle.owner?.accountId ?? null,
+  plannedStartDate: testCycle.plannedStartDate,
+  plannedEndDate: testCycle.plannedEndDate,
+  actualStartDate: testCycle.actualStartDate,
+  actualEndDate: testCycle.actualEndDate,
+  createdOn: testCycle.createdOn,
+  updatedOn: testCycle.updatedOn,
+  executionSummary: testCycle.executionSummary,
+});
+
+export const getTestCycle = async (input: GetTestCycleInput) => {
+  const validatedInput = getTestCycleSchema.parse(input);
+
   try {
-    const result = await getZephyrClient().getTestCycles('', undefined, 1000);
-    const testCycle = result.testCycles.find(cycle => cycle.id === input.cycleId);
+    const testCycle = await getZephyrClient().getTestCycle(validatedInput.cycleId);
     
-    if (!testCycle) {
+    return {
+      success: true,
+      data: formatTestCycle(testCycle),
+    };
+  } catch (error: any) {
+    if (error.response?.status === 404) {
       return {
         success: false,
-        error: 'Test cycle not found',
+        error: `Test cycle ${validatedInput.cycleId} not found`,
       };
     }
-    
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+export const updateTestCycle = async (input: UpdateTestCycleInput) => {
+  const validatedInput = updateTestCycleSchema.parse(input);
+
+  try {
+    const zephyr = getZephyrClient();
+
+    // Status names and folder paths are resolved within the cycle's project
+    let projectKey: string | undefined;
+    const getProjectKey = async () => {
+      if (!projectKey) {
+        const current = await zephyr.getTestCycle(validatedInput.cycleId);
+        projectKey = current.key.replace(/-R\d+$/, '');
+      }
+      return projectKey;
+    };
+
+    let statusId: number | undefined;
+    if (validatedInput.status !== undefined) {
+      if (/^\d+$/.test(validatedInput.status)) {
+        statusId = Number(validatedInput.status);
+      } else {
+        const statuses = await zephyr.getStatuses(await getProjectKey(), 'TEST_CYCLE');
+        const status = statuses.find(s => s.name.toLowerCase() === validatedInput.status!.toLowerCase());
+        if (!status) {
+          return {
+            success: false,
+            error: `Unknown test cycle status "${validatedInput.status}". Available statuses: ${statuses.map(s => s.name).join(', ')}`,
+          };
+        }
+        statusId = status.id;
+      }
+    }
+
+    let folderId: number | null | undefined;
+    if (validatedInput.folderPath) {
+      folderId = (await zephyr.resolveFolderPath(await getProjectKey(), validatedInput.folderPath, 'TEST_CYCLE')).id;
+    } else if (validatedInput.folderId !== undefined) {
+      folderId = validatedInput.folderId === null ? null : Number(validatedInput.folderId);
+    }
+
+    const testCycle = await zephyr.updateTestCycle(validatedInput.cycleId, {
+      name: validatedInput.name,
+      description: validatedInput.description,
+      statusId,
+      plannedStartDate: validatedInput.plannedStartDate,
+      plannedEndDate: validatedInput.plannedEndDate,
+      folderId,
+      ownerId: validatedInput.ownerId,
+    });
+
+    return {
+      success: true,
+      data: formatTestCycle(testCycle),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+export const deleteTestCycle = async (input: DeleteTestCycleInput) => {
+  const validatedInput = deleteTestCycleSchema.parse(input);
+
+  try {
+    await getZephyrClient().deleteTestCycle(validatedInput.cycleId);
+
     return {
       success: true,
       data: {
-        id: testCycle.id,
-        key: testCycle.key,
-        name: testCycle.name,
-        description: testCycle.description,
-        projectId: testCycle.projectId,
-        versionId: testCycle.versionId,
-        environment: testCycle.environment,
-        status: testCycle.status,
-        plannedStartDate: testCycle.plannedStartDate,
-        plannedEndDate: testCycle.plannedEndDate,
-        actualStartDate: testCycle.actualStartDate,
-        actualEndDate: testCycle.actualEndDate,
-        createdOn: testCycle.createdOn,
-        updatedOn: testCycle.updatedOn,
-        executionSummary: testCycle.executionSummary,
+        cycleId: validatedInput.cycleId,
+        message: `Test cycle ${validatedInput.cycleId} deleted successfully`,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+// "Nightly" -> "Nightly - Re-run", "Nightly - Re-run" -> "Nightly - Re-run 2"
+const getRerunName = (name: string): string => {
+  const match = name.match(/^(.*) - Re-run(?: (\d+))?$/);
+  return match ? `${match[1]} - Re-run ${Number(match[2] || 1) + 1}` : `${name} - Re-run`;
+};
+
+const getTestCycleUrl = (projectKey: string, cycleKey: string): string =>
+  `${getAppConfig().JIRA_BASE_URL.replace(/\/+$/, '')}/projects/${projectKey}`
+  + `?selectedItem=com.atlassian.plugins.atlassian-connect-plugin:com.kanoah.test-manager__main-project-page#!/testCycle/${cycleKey}`;
+
+export const createRerunCycle = async (input: CreateRerunCycleInput) => {
+  const validatedInput = createRerunCycleSchema.parse(input);
+
+  try {
+    const zephyr = getZephyrClient();
+    const source = await zephyr.getTestCycle(validatedInput.cycleId);
+    const projectKey = source.key.replace(/-R\d+$/, '');
+    // A source cycle without a version yields a re-run without one, rather than an empty versionId
+    const sourceVersionId = source.jiraProjectVersion?.id ?? source.versionId;
+    const versionId = validatedInput.versionId || (sourceVersionId !== undefined ? String(sourceVersionId) : undefined);
+
+    // Only the latest execution of each test case decides whether it is re-run
+    const executions = await zephyr.getAllTestExecutions({ projectKey, testCycle: source.key });
+    const selected = Array.from(getLatestExecutionsByTestCase(executions).entries())
+      .filter(([, execution]) => (validatedInput.statuses as string[]).includes(normalizeStatus(execution.status)));
+
+    if (selected.length === 0) {
+      return {
+        success: false,
+        error: `No executions in ${source.key} have status ${validatedInput.statuses.join(' or ')}`,
+      };
+    }
+
+    const rerunCycle = await zephyr.createTestCycle({
+      name: validatedInput.name || getRerunName(source.name),
+      description: `Re-run of ${source.key} (${source.name}) for ${validatedInput.statuses.join(', ')} test cases`,
+      projectKey,
+      versionId,
+      environment: source.environment,
+      startDate: validatedInput.plannedStartDate,
+      endDate: validatedInput.plannedEndDate,
+    });
+
+    const results = [];
+    for (const [testCaseKey, execution] of selected) {
+      try {
+        const created = await zephyr.createTestExecution({
+          projectKey,
+          testCaseKey,
+          cycleId: rerunCycle.key,
+          status: 'NOT_EXECUTED',
+          environment: execution.environment || source.environment,
+          assigneeId: execution.assignedTo?.accountId,
+          plannedStartDate: validatedInput.plannedStartDate,
+          plannedEndDate: validatedInput.plannedEndDate,
+        });
+        results.push({
+          testCaseKey,
+          previousStatus: execution.status,
+          previousExecutionKey: execution.key,
+          success: true,
+          executionKey: created.key,
+        });
+      } catch (error: any) {
+        results.push({
+          testCaseKey,
+          previousStatus: execution.status,
+          previousExecutionKey: execution.key,
+          success: false,
+          error: error.response?.data?.message || error.message,
+        });
+      }
+    }
+
+    let linkedToSource = false;
+    let linkError: string | undefined;
+    if (validatedInput.linkToSource) {
+      try {
+        await zephyr.addTestCycleWebLink(
+          rerunCycle.key,
+          getTestCycleUrl(projectKey, source.key),
+          `Re-run of ${source.key}`
+        );
+        linkedToSource = true;
+      } catch (error: any) {
+        linkError = error.response?.data?.message || error.message;
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        sourceCycle: { id: source.id, key: source.key, name: source.name },
+        rerunCycle: { id: rerunCycle.id, key: rerunCycle.key, name: rerunCycle.name },
+        linkedToSource,
+        linkError,
+        results,
+        createdCount: results.filter(r => r.success).length,
+        failureCount: results.filter(r => !r.success).length,
+        message: `Created ${rerunCycle.key} with ${results.filter(r => r.success).length} of ${selected.length} test case(s) from ${source.key}`,
       },
     };
   } catch (error: any) {
@@ -143,4 +354,4 @@ export const getTestCycle = async (input: { cycleId: string }) => {
       error: error.response?.data?.message || error.message,
     };
   }
-};
\ No newline at end of file
+};
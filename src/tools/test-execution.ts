@@ -1,15 +1,38 @@
 import { ZephyrClient } from '../clients/zephyr-client.js';
+import { findAllTestCases } from './test-cases.js';
+import { createDefectFromExecution } from './defects.js';
+import { getAppConfig } from '../utils/config.js';
+import { ZephyrTestExecution } from '../types/zephyr-types.js';
+import { getExecutionTestCaseKey, getExecutionDate, deriveExecutionStatus, normalizeStatus } from '../utils/executions.js';
+import { readTemplateFile } from '../utils/file-access.js';
+import { createLogger } from '../utils/logger.js';
+import {
+  renderCsvReport,
+  renderHtmlReport,
+  renderJUnitReport,
+  renderMarkdownReport,
+  TestReportExecution,
+  TestReportModel,
+  TestReportStepFailure,
+} from '../utils/test-report.js';
 import {
   executeTestSchema,
+  addTestCasesToCycleSchema,
+  createDefectFromExecutionSchema,
   getTestExecutionStatusSchema,
   linkTestsToIssuesSchema,
   generateTestReportSchema,
+  getTestCaseExecutionsSchema,
   ExecuteTestInput,
+  AddTestCasesToCycleInput,
   GetTestExecutionStatusInput,
+  GetTestCaseExecutionsInput,
   LinkTestsToIssuesInput,
   GenerateTestReportInput,
 } from '../utils/validation.js';
 
+const logger = createLogger('test-execution');
+
 let zephyrClient: ZephyrClient | null = null;
 
 const getZephyrClient = (): ZephyrClient => {
@@ -21,15 +44,38 @@ const getZephyrClient = (): ZephyrClient => {
 
 export const executeTest = async (input: ExecuteTestInput) => {
   const validatedInput = executeTestSchema.parse(input);
+  // Parsed before anything is written, so bad defect options cannot fail a recorded execution
+  const defectInput = validatedInput.createDefect
+    ? createDefectFromExecutionSchema.parse({
+      ...validatedInput.defectOptions,
+      executionId: validatedInput.executionId,
+    })
+    : undefined;
   
   try {
-    const execution = await getZephyrClient().updateTestExecution({
+    const zephyr = getZephyrClient();
+    
+    const steps = validatedInput.stepResults && validatedInput.stepResults.length > 0
+      ? await zephyr.mergeTestExecutionSteps(validatedInput.executionId, validatedInput.stepResults)
+      : undefined;
+    
+    // Derive from every step of the execution, with this update applied
+    const status = validatedInput.status
+      ?? deriveExecutionStatus(steps!.map(step => normalizeStatus(step.statusName)));
+    
+    const execution = await zephyr.updateTestExecution({
       executionId: validatedInput.executionId,
-      status: validatedInput.status,
+      status,
       comment: validatedInput.comment,
       defects: validatedInput.defects,
+      steps,
     });
     
+    // Defect filing never fails the execution update itself
+    const defect = defectInput && status === 'FAIL'
+      ? await createDefectFromExecution(defectInput)
+      : undefined;
+    
     return {
       success: true,
       data: {
@@ -45,6 +91,9 @@ export const executeTest = async (input: ExecuteTestInput) => {
           key: defect.key,
           summary: defect.summary,
         })),
+        statusDerivedFromSteps: validatedInput.status === undefined,
+        stepResults: validatedInput.stepResults || [],
+        defect,
       },
     };
   } catch (error: any) {
@@ -91,6 +140,93 @@ export const getTestExecutionStatus = async (input: GetTestExecutionStatusInput)
   }
 };
 
+const STATUS_LETTERS: Record<string, string> = {
+  PASS: 'P',
+  FAIL: 'F',
+  BLOCKED: 'B',
+  WIP: 'W',
+};
+
+const toHistoryEntry = (execution: ZephyrTestExecution, cycleKey?: string) => ({
+  executionKey: execution.key,
+  status: normalizeStatus(execution.status),
+  cycleKey,
+  executedBy: execution.executedBy?.displayName || execution.executedBy?.accountId || execution.assignedTo?.displayName,
+  environment: execution.environment,
+  executedOn: getExecutionDate(execution),
+  comment: execution.comment,
+  defects: (execution.defects || []).map(defect => defect.key),
+});
+
+export const getTestCaseExecutions = async (input: GetTestCaseExecutionsInput) => {
+  const validatedInput = getTestCaseExecutionsSchema.parse(input);
+
+  try {
+    const zephyr = getZephyrClient();
+    const executions = await zephyr.getAllTestExecutions({
+      projectKey: validatedInput.testCaseKey.replace(/-T\d+$/, ''),
+      testCase: validatedInput.testCaseKey,
+      actualEndDateAfter: validatedInput.fromDate ? `${validatedInput.fromDate}T00:00:00Z` : undefined,
+      actualEndDateBefore: validatedInput.toDate ? `${validatedInput.toDate}T23:59:59Z` : undefined,
+    });
+
+    // Newest first; executions that never ran sort last
+    const filtered = executions
+      .filter(execution => !validatedInput.statuses || (validatedInput.statuses as string[]).includes(normalizeStatus(execution.status)))
+      .sort((a, b) => (getExecutionDate(b) || '').localeCompare(getExecutionDate(a) || ''));
+
+    // The timeline only looks at executions that actually ran
+    const executed = filtered.filter(execution => getExecutionDate(execution));
+    const lastExecuted = executed[0];
+    const lastPassed = executed.find(execution => normalizeStatus(execution.status) === 'PASS');
+    const lastFailed = executed.find(execution => normalizeStatus(execution.status) === 'FAIL');
+    const currentStatus = lastExecuted && normalizeStatus(lastExecuted.status);
+    const streak = executed.findIndex(execution => normalizeStatus(execution.status) !== currentStatus);
+    const counts = filtered.reduce<Record<string, number>>((acc, execution) => {
+      const status = normalizeStatus(execution.status);
+      acc[status] = (acc[status] || 0) + 1;
+      return acc;
+    }, {});
+
+    // Executions only reference their cycle by ID, so look up each cycle key once
+    const page = filtered.slice(validatedInput.offset, validatedInput.offset + validatedInput.limit);
+    const cycleKeys = new Map<number, string | undefined>();
+    for (const execution of [...page, lastPassed, lastFailed]) {
+      const cycleId = execution?.testCycle?.id;
+      if (cycleId !== undefined && !cycleKeys.has(cycleId)) {
+        cycleKeys.set(cycleId, await zephyr.getTestCycle(String(cycleId)).then(cycle => cycle.key, () => undefined));
+      }
+    }
+    const toEntry = (execution?: ZephyrTestExecution) =>
+      execution ? toHistoryEntry(execution, cycleKeys.get(execution.testCycle?.id ?? -1)) : null;
+
+    return {
+      success: true,
+      data: {
+        testCaseKey: validatedInput.testCaseKey,
+        total: filtered.length,
+        offset: validatedInput.offset,
+        isLast: validatedInput.offset + page.length >= filtered.length,
+        timeline: {
+          counts,
+          lastExecuted: toEntry(lastExecuted),
+          lastPassed: toEntry(lastPassed),
+          lastFailed: toEntry(lastFailed),
+          currentStreak: currentStatus ? { status: currentStatus, count: streak === -1 ? executed.length : streak } : null,
+          // Oldest to newest, one letter per run: P(ass) F(ail) B(locked) W(ip)
+          sequence: executed.map(execution => STATUS_LETTERS[normalizeStatus(execution.status)] || '?').reverse().join(''),
+        },
+        executions: page.map(execution => toEntry(execution)),
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
 export const linkTestsToIssues = async (input: LinkTestsToIssuesInput) => {
   const validatedInput = linkTestsToIssuesSchema.parse(input);
   
@@ -130,19 +266,220 @@ export const linkTestsToIssues = async (input: LinkTestsToIssuesInput) => {
   }
 };
 
+export const addTestCasesToCycle = async (input: AddTestCasesToCycleInput) => {
+  const validatedInput = addTestCasesToCycleSchema.parse(input);
+  
+  try {
+    const zephyr = getZephyrClient();
+    const testCaseKeys = new Set(validatedInput.testCaseKeys || []);
+    
+    // Expand filters and folders into test case keys
+    if (validatedInput.filters || validatedInput.folderId || validatedInput.folderPath) {
+      const matching = await findAllTestCases(validatedInput.projectKey, {
+        ...validatedInput.filters,
+        ...(validatedInput.folderId && { folderId: validatedInput.folderId }),
+        ...(validatedInput.folderPath && { folderPath: validatedInput.folderPath }),
+      });
+      matching.forEach(testCase => testCaseKeys.add(testCase.key));
+    }
+    
+    if (testCaseKeys.size === 0) {
+      return {
+        success: false,
+        error: 'No test cases matched the given keys, filters or folder',
+      };
+    }
+    
+    const existingKeys = new Set<string>();
+    if (validatedInput.skipExisting) {
+      const executions = await zephyr.getTestCycleExecutions(validatedInput.cycleId);
+      executions.forEach(execution => {
+        const key = getExecutionTestCaseKey(execution);
+        if (key) existingKeys.add(key);
+      });
+    }
+    
+    const results = [];
+    
+    for (const testCaseKey of testCaseKeys) {
+      if (existingKeys.has(testCaseKey)) {
+        results.push({
+          testCaseKey,
+          success: true,
+          skipped: true,
+          reason: 'Test case already has an execution in this cycle',
+        });
+        continue;
+      }
+      
+      try {
+        const execution = await zephyr.createTestExecution({
+          projectKey: validatedInput.projectKey,
+          testCaseKey,
+          cycleId: validatedInput.cycleId,
+          status: 'NOT_EXECUTED',
+          environment: validatedInput.environment,
+          assigneeId: validatedInput.assigneeId,
+          plannedStartDate: validatedInput.plannedStartDate,
+          plannedEndDate: validatedInput.plannedEndDate,
+        });
+        results.push({
+          testCaseKey,
+          success: true,
+          executionId: execution.id,
+          executionKey: execution.key,
+        });
+      } catch (error: any) {
+        results.push({
+          testCaseKey,
+          success: false,
+          error: error.response?.data?.message || error.message,
+        });
+      }
+    }
+    
+    return {
+      success: true,
+      data: {
+        cycleId: validatedInput.cycleId,
+        results,
+        createdCount: results.filter(r => r.success && !r.skipped).length,
+        skippedCount: results.filter(r => r.skipped).length,
+        failureCount: results.filter(r => !r.success).length,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+const buildTestReportModel = async (cycleId: string): Promise<TestReportModel> => {
+  const zephyr = getZephyrClient();
+  const report = await zephyr.generateTestReport(cycleId);
+  const testCases = new Map<string, { name: string; folderId?: number; priorityId?: number }>();
+
+  const firstKey = report.executions.map(e => getExecutionTestCaseKey(e) || e.testCaseId).find(Boolean);
+  const projectKey = report.projectKey || firstKey?.split('-T')[0] || '';
+
+  // Folder and priority names are only used for grouping, so failures just leave them blank
+  const folderNames = new Map<number, string>();
+  const priorityNames = new Map<number, string>();
+  if (projectKey) {
+    try {
+      (await zephyr.getAllFolders(projectKey, 'TEST_CASE')).forEach(folder => folderNames.set(folder.id, folder.name));
+      (await zephyr.getPriorities(projectKey)).forEach(priority => priorityNames.set(priority.id, priority.name));
+    } catch (error) {
+      logger.warn(`Failed to get folders or priorities for ${projectKey}`, error);
+    }
+  }
+
+  const jiraBaseUrl = getAppConfig().JIRA_BASE_URL.replace(/\/+$/, '');
+
+  const executions: TestReportExecution[] = [];
+  for (const execution of report.executions) {
+    const testCaseKey = getExecutionTestCaseKey(execution) || execution.testCaseId || '';
+
+    if (testCaseKey && !testCases.has(testCaseKey)) {
+      try {
+        const testCase = await zephyr.getTestCase(testCaseKey);
+        testCases.set(testCaseKey, {
+          name: testCase.name,
+          folderId: testCase.folder?.id,
+          priorityId: testCase.priority?.id,
+        });
+      } catch (error) {
+        logger.warn(`Failed to get test case ${testCaseKey}`, error);
+        testCases.set(testCaseKey, { name: testCaseKey });
+      }
+    }
+    const testCase = testCases.get(testCaseKey);
+    // The renderers compare against PASS, FAIL and BLOCKED
+    const status = normalizeStatus(execution.status);
+
+    let failedSteps: TestReportStepFailure[] = [];
+    if (status === 'FAIL' || status === 'BLOCKED') {
+      try {
+        const steps = await zephyr.getTestExecutionSteps(execution.key);
+        failedSteps = steps
+          .map((step, idx) => ({ ...step, index: step.index ?? idx + 1 }))
+          .filter(step => /fail|blocked/i.test(step.statusName || ''))
+          .map(step => ({
+            index: step.index,
+            status: String(step.statusName).toUpperCase(),
+            description: step.description,
+            expectedResult: step.expectedResult,
+            actualResult: step.actualResult,
+          }));
+      } catch (error) {
+        logger.warn(`Failed to get step results for ${execution.key}`, error);
+      }
+    }
+
+    executions.push({
+      key: execution.key,
+      testCaseKey,
+      testCaseName: testCase?.name || testCaseKey,
+      status,
+      environment: execution.environment,
+      executedBy: execution.executedBy?.displayName || execution.executedBy?.accountId,
+      executedOn: getExecutionDate(execution),
+      durationMs: execution.executionTime,
+      comment: execution.comment,
+      folder: testCase?.folderId !== undefined ? folderNames.get(testCase.folderId) : undefined,
+      priority: testCase?.priorityId !== undefined ? priorityNames.get(testCase.priorityId) : undefined,
+      failedSteps,
+      defects: (execution.defects || []).map(defect => ({
+        ...defect,
+        url: `${jiraBaseUrl}/browse/${encodeURIComponent(defect.key)}`,
+      })),
+    });
+  }
+
+  return {
+    cycleId: report.cycleId,
+    cycleName: report.cycleName,
+    projectKey,
+    summary: report.summary,
+    executions,
+    generatedOn: report.generatedOn,
+  };
+};
+
+const REPORT_RENDERERS: Record<Exclude<GenerateTestReportInput['format'], 'JSON' | 'HTML'>, (report: TestReportModel) => string> = {
+  MARKDOWN: renderMarkdownReport,
+  CSV: renderCsvReport,
+  JUNIT_XML: renderJUnitReport,
+};
+
 export const generateTestReport = async (input: GenerateTestReportInput) => {
   const validatedInput = generateTestReportSchema.parse(input);
   
   try {
-    const report = await getZephyrClient().generateTestReport(validatedInput.cycleId);
+    const report = await buildTestReportModel(validatedInput.cycleId);
     
     if (validatedInput.format === 'HTML') {
-      const htmlReport = generateHtmlReport(report);
+      const template = validatedInput.templatePath
+        ? await readTemplateFile(validatedInput.templatePath)
+        : undefined;
       return {
         success: true,
         data: {
           format: 'HTML',
-          content: htmlReport,
+          content: renderHtmlReport(report, template),
+          generatedOn: report.generatedOn,
+        },
+      };
+    }
+    
+    if (validatedInput.format !== 'JSON') {
+      return {
+        success: true,
+        data: {
+          format: validatedInput.format,
+          content: REPORT_RENDERERS[validatedInput.format](report),
           generatedOn: report.generatedOn,
         },
       };
@@ -163,70 +500,3 @@ export const generateTestReport = async (input: GenerateTestReportInput) => {
     };
   }
 };
-
-const generateHtmlReport = (report: any) => {
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <title>Test Execution Report - ${report.cycleName}</title>
-      <style>
-        body { font-family: Arial, sans-serif; margin: 20px; }
-        .header { background-color: #f5f5f5; padding: 20px; border-radius: 5px; }
-        .summary { display: flex; gap: 20px; margin: 20px 0; }
-        .metric { background-color: #e8f4f8; padding: 15px; border-radius: 5px; text-align: center; }
-        .metric h3 { margin: 0 0 10px 0; }
-        .metric .value { font-size: 24px; font-weight: bold; }
-        .executions { margin-top: 30px; }
-        .execution { padding: 10px; border-left: 4px solid #ddd; margin: 10px 0; }
-        .execution.pass { border-left-color: #4caf50; }
-        .execution.fail { border-left-color: #f44336; }
-        .execution.blocked { border-left-color: #ff9800; }
-        .execution.progress { border-left-color: #2196f3; }
-      </style>
-    </head>
-    <body>
-      <div class="header">
-        <h1>Test Execution Report</h1>
-        <h2>${report.cycleName}</h2>
-        <p>Project: ${report.projectKey}</p>
-        <p>Generated: ${new Date(report.generatedOn).toLocaleString()}</p>
-      </div>
-      
-      <div class="summary">
-        <div class="metric">
-          <h3>Total Tests</h3>
-          <div class="value">${report.summary.total}</div>
-        </div>
-        <div class="metric">
-          <h3>Passed</h3>
-          <div class="value">${report.summary.passed}</div>
-        </div>
-        <div class="metric">
-          <h3>Failed</h3>
-          <div class="value">${report.summary.failed}</div>
-        </div>
-        <div class="metric">
-          <h3>Blocked</h3>
-          <div class="value">${report.summary.blocked}</div>
-        </div>
-        <div class="metric">
-          <h3>Pass Rate</h3>
-          <div class="value">${Math.round(report.summary.passRate)}%</div>
-        </div>
-      </div>
-      
-      <div class="executions">
-        <h3>Test Executions</h3>
-        ${report.executions.map((exec: any) => `
-          <div class="execution ${exec.status.toLowerCase()}">
-            <strong>${exec.key}</strong> - ${exec.status}
-            ${exec.comment ? `<p>${exec.comment}</p>` : ''}
-            ${exec.defects.length > 0 ? `<p>Defects: ${exec.defects.map((d: any) => d.key).join(', ')}</p>` : ''}
-          </div>
-        `).join('')}
-      </div>
-    </body>
-    </html>
-  `;
-};
\ No newline at end of file
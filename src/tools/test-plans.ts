@@ -1,12 +1,24 @@
 import { ZephyrClient } from '../clients/zephyr-client.js';
+import { JiraClient } from '../clients/jira-client.js';
+import { ZephyrTestPlan } from '../types/zephyr-types.js';
+import { summarizeExecutions } from '../utils/executions.js';
 import {
   createTestPlanSchema,
   listTestPlansSchema,
+  getTestPlanSchema,
+  updateTestPlanSchema,
+  linkToTestPlanSchema,
+  unlinkFromTestPlanSchema,
   CreateTestPlanInput,
   ListTestPlansInput,
+  GetTestPlanInput,
+  UpdateTestPlanInput,
+  LinkToTestPlanInput,
+  UnlinkFromTestPlanInput,
 } from '../utils/validation.js';
 
 let zephyrClient: ZephyrClient | null = null;
+let jiraClient: JiraClient | null = null;
 
 const getZephyrClient = (): ZephyrClient => {
   if (!zephyrClient) {
@@ -15,6 +27,13 @@ const getZephyrClient = (): ZephyrClient => {
   return zephyrClient;
 };
 
+const getJiraClient = (): JiraClient => {
+  if (!jiraClient) {
+    jiraClient = new JiraClient();
+  }
+  return jiraClient;
+};
+
 export const createTestPlan = async (input: CreateTestPlanInput) => {
   const validatedInput = createTestPlanSchema.parse(input);
   
@@ -62,6 +81,8 @@ export const listTestPlans = async (input: ListTestPlansInput) => {
       success: true,
       data: {
         total: result.total,
+        isLast: result.isLast,
+        nextOffset: result.nextStartAt,
         testPlans: result.testPlans.map(plan => ({
           id: plan.id,
           key: plan.key,
@@ -82,30 +103,165 @@ export const listTestPlans = async (input: ListTestPlansInput) => {
   }
 };
 
-export const getTestPlan = async (input: { testPlanId: string }) => {
+const formatTestPlan = (testPlan: ZephyrTestPlan) => ({
+  id: testPlan.id,
+  key: testPlan.key,
+  name: testPlan.name,
+  description: testPlan.objective ?? testPlan.description,
+  projectId: testPlan.projectId,
+  status: testPlan.status,
+  labels: testPlan.labels || [],
+  folderId: testPlan.folder?.id ?? null,
+  ownerId: testPlan.owner?.accountId ?? null,
+  createdOn: testPlan.createdOn,
+  updatedOn: testPlan.updatedOn,
+  createdBy: testPlan.createdBy?.displayName,
+});
+
+export const getTestPlan = async (input: GetTestPlanInput) => {
+  const validatedInput = getTestPlanSchema.parse(input);
+
   try {
-    const result = await getZephyrClient().getTestPlans('', 1, 0);
-    const testPlan = result.testPlans.find(plan => plan.id === input.testPlanId);
+    const zephyr = getZephyrClient();
+    const testPlan = await zephyr.getTestPlan(validatedInput.testPlanId);
+
+    const { cycles, warnings } = await zephyr.getTestPlanCycles(testPlan, validatedInput.includeCycleSummaries);
+    const testCycles = cycles.map(({ cycle, executions }) => ({
+      id: cycle.id,
+      key: cycle.key,
+      name: cycle.name,
+      status: cycle.status,
+      plannedStartDate: cycle.plannedStartDate,
+      plannedEndDate: cycle.plannedEndDate,
+      executionSummary: validatedInput.includeCycleSummaries ? summarizeExecutions(executions) : undefined,
+    }));
+    const rollup = summarizeExecutions(cycles.flatMap(({ executions }) => executions));
     
-    if (!testPlan) {
+    return {
+      success: true,
+      data: {
+        ...formatTestPlan(testPlan),
+        linkedIssueIds: (testPlan.links?.issues || []).map(link => String(link.issueId)),
+        testCycles,
+        executionSummary: validatedInput.includeCycleSummaries ? {
+          ...rollup,
+          passRate: Math.round(rollup.passRate),
+        } : undefined,
+        warnings,
+      },
+    };
+  } catch (error: any) {
+    if (error.response?.status === 404) {
       return {
         success: false,
-        error: 'Test plan not found',
+        error: `Test plan ${validatedInput.testPlanId} not found`,
       };
     }
-    
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+export const updateTestPlan = async (input: UpdateTestPlanInput) => {
+  const validatedInput = updateTestPlanSchema.parse(input);
+
+  try {
+    const zephyr = getZephyrClient();
+
+    // Status names and folder paths are resolved within the plan's project
+    let projectKey: string | undefined;
+    const getProjectKey = async () => {
+      if (!projectKey) {
+        const current = await zephyr.getTestPlan(validatedInput.testPlanId);
+        projectKey = current.key.replace(/-P\d+$/, '');
+      }
+      return projectKey;
+    };
+
+    let statusId: number | undefined;
+    if (validatedInput.status !== undefined) {
+      if (/^\d+$/.test(validatedInput.status)) {
+        statusId = Number(validatedInput.status);
+      } else {
+        const statuses = await zephyr.getStatuses(await getProjectKey(), 'TEST_PLAN');
+        const status = statuses.find(s => s.name.toLowerCase() === validatedInput.status!.toLowerCase());
+        if (!status) {
+          return {
+            success: false,
+            error: `Unknown test plan status "${validatedInput.status}". Available statuses: ${statuses.map(s => s.name).join(', ')}`,
+          };
+        }
+        statusId = status.id;
+      }
+    }
+
+    let folderId: number | null | undefined;
+    if (validatedInput.folderPath) {
+      folderId = (await zephyr.resolveFolderPath(await getProjectKey(), validatedInput.folderPath, 'TEST_PLAN')).id;
+    } else if (validatedInput.folderId !== undefined) {
+      folderId = validatedInput.folderId === null ? null : Number(validatedInput.folderId);
+    }
+
+    const testPlan = await zephyr.updateTestPlan(validatedInput.testPlanId, {
+      name: validatedInput.name,
+      objective: validatedInput.objective,
+      statusId,
+      folderId,
+      ownerId: validatedInput.ownerId,
+      labels: validatedInput.labels,
+    });
+
+    return {
+      success: true,
+      data: formatTestPlan(testPlan),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
+
+export const linkToTestPlan = async (input: LinkToTestPlanInput) => {
+  const validatedInput = linkToTestPlanSchema.parse(input);
+
+  try {
+    const zephyr = getZephyrClient();
+    const results = [];
+
+    for (const cycleId of validatedInput.testCycleIds || []) {
+      try {
+        await zephyr.linkTestCycleToTestPlan(validatedInput.testPlanId, cycleId);
+        results.push({ testCycleId: cycleId, success: true });
+      } catch (error: any) {
+        results.push({ testCycleId: cycleId, success: false, error: error.response?.data?.message || error.message });
+      }
+    }
+
+    for (const issueKey of validatedInput.issueKeys || []) {
+      try {
+        const issue = await getJiraClient().getIssue(issueKey, ['summary']);
+        await zephyr.linkIssueToTestPlan(validatedInput.testPlanId, issue.id);
+        results.push({ issueKey, success: true });
+      } catch (error: any) {
+        results.push({
+          issueKey,
+          success: false,
+          error: error.response?.data?.errorMessages?.[0] || error.response?.data?.message || error.message,
+        });
+      }
+    }
+
     return {
       success: true,
       data: {
-        id: testPlan.id,
-        key: testPlan.key,
-        name: testPlan.name,
-        description: testPlan.description,
-        projectId: testPlan.projectId,
-        status: testPlan.status,
-        createdOn: testPlan.createdOn,
-        updatedOn: testPlan.updatedOn,
-        createdBy: testPlan.createdBy.displayName,
+        testPlanId: validatedInput.testPlanId,
+        linkResults: results,
+        successCount: results.filter(r => r.success).length,
+        failureCount: results.filter(r => !r.success).length,
       },
     };
   } catch (error: any) {
@@ -114,4 +270,63 @@ export const getTestPlan = async (input: { testPlanId: string }) => {
       error: error.response?.data?.message || error.message,
     };
   }
-};
\ No newline at end of file
+};
+
+export const unlinkFromTestPlan = async (input: UnlinkFromTestPlanInput) => {
+  const validatedInput = unlinkFromTestPlanSchema.parse(input);
+
+  try {
+    const zephyr = getZephyrClient();
+    const testPlan = await zephyr.getTestPlan(validatedInput.testPlanId);
+    const results = [];
+
+    for (const cycleId of validatedInput.testCycleIds || []) {
+      try {
+        const numericId = /^\d+$/.test(cycleId) ? Number(cycleId) : Number((await zephyr.getTestCycle(cycleId)).id);
+        const link = testPlan.links?.testCycles?.find(l => l.testCycleId === numericId);
+        if (!link) {
+          results.push({ testCycleId: cycleId, success: false, error: 'Test cycle is not linked to the test plan' });
+          continue;
+        }
+        await zephyr.deleteLink(link.id);
+        results.push({ testCycleId: cycleId, success: true });
+      } catch (error: any) {
+        results.push({ testCycleId: cycleId, success: false, error: error.response?.data?.message || error.message });
+      }
+    }
+
+    for (const issueKey of validatedInput.issueKeys || []) {
+      try {
+        const issue = await getJiraClient().getIssue(issueKey, ['summary']);
+        const link = testPlan.links?.issues?.find(l => String(l.issueId) === String(issue.id));
+        if (!link) {
+          results.push({ issueKey, success: false, error: 'Issue is not linked to the test plan' });
+          continue;
+        }
+        await zephyr.deleteLink(link.id);
+        results.push({ issueKey, success: true });
+      } catch (error: any) {
+        results.push({
+          issueKey,
+          success: false,
+          error: error.response?.data?.errorMessages?.[0] || error.response?.data?.message || error.message,
+        });
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        testPlanId: validatedInput.testPlanId,
+        linkResults: results,
+        successCount: results.filter(r => r.success).length,
+        failureCount: results.filter(r => !r.success).length,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message,
+    };
+  }
+};
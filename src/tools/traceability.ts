@@ -0,0 +1,183 @@
+import { ZephyrClient } from '../clients/zephyr-client.js';
+import { JiraClient } from '../clients/jira-client.js';
+import { getLatestExecutionsByTestCase, getExecutionDate, normalizeStatus } from '../utils/executions.js';
+import { toCsv, toMarkdownTable } from '../utils/format.js';
+import {
+  generateTraceabilityMatrixSchema,
+  GenerateTraceabilityMatrixInput,
+} from '../utils/validation.js';
+
+let zephyrClient: ZephyrClient | null = null;
+let jiraClient: JiraClient | null = null;
+
+const getZephyrClient = (): ZephyrClient => {
+  if (!zephyrClient) {
+    zephyrClient = new ZephyrClient();
+  }
+  return zephyrClient;
+};
+
+const getJiraClient = (): JiraClient => {
+  if (!jiraClient) {
+    jiraClient = new JiraClient();
+  }
+  return jiraClient;
+};
+
+type Coverage = 'UNCOVERED' | 'FAILING' | 'NOT_EXECUTED' | 'IN_PROGRESS' | 'PASSING';
+
+interface MatrixRow {
+  issueKey: string;
+  summary: string;
+  issueType: string;
+  status: string;
+  coverage: Coverage;
+  testCases: Array<{
+    key: string;
+    name: string;
+    latestStatus: string;
+    executedOn?: string;
+    executionKey?: string;
+  }>;
+}
+
+const getCoverage = (statuses: string[]): Coverage => {
+  if (statuses.length === 0) return 'UNCOVERED';
+  if (statuses.some(s => s === 'FAIL' || s === 'BLOCKED')) return 'FAILING';
+  if (statuses.every(s => s === 'NOT_EXECUTED')) return 'NOT_EXECUTED';
+  if (statuses.every(s => s === 'PASS')) return 'PASSING';
+  return 'IN_PROGRESS';
+};
+
+const renderMarkdown = (rows: MatrixRow[], summary: Record<string, number>): string => {
+  const lines = [
+    '# Requirements Traceability Matrix',
+    '',
+    `Requirements: ${summary.total} | Passing: ${summary.passing} | Failing: ${summary.failing} | ` +
+      `Not executed: ${summary.notExecuted} | In progress: ${summary.inProgress} | Uncovered: ${summary.uncovered}`,
+    '',
+    toMarkdownTable(
+      ['Requirement', 'Summary', 'Status', 'Coverage', 'Test Cases'],
+      rows.map(row => [
+        row.issueKey,
+        row.summary,
+        row.status,
+        row.coverage === 'PASSING' ? row.coverage : `**${row.coverage}**`,
+        row.testCases.map(tc => `${tc.key} (${tc.latestStatus})`).join(', ') || '-',
+      ])
+    ),
+  ];
+  return lines.join('\n');
+};
+
+const renderCsv = (rows: MatrixRow[]): string =>
+  toCsv(
+    ['Requirement', 'Summary', 'Issue Type', 'Issue Status', 'Coverage', 'Test Case', 'Test Case Name', 'Latest Status', 'Executed On'],
+    rows.flatMap(row =>
+      row.testCases.length === 0
+        ? [[row.issueKey, row.summary, row.issueType, row.status, row.coverage, '', '', '', '']]
+        : row.testCases.map(tc => [
+          row.issueKey, row.summary, row.issueType, row.status, row.coverage,
+          tc.key, tc.name, tc.latestStatus, tc.executedOn || '',
+        ])
+    )
+  );
+
+export const generateTraceabilityMatrix = async (input: GenerateTraceabilityMatrixInput) => {
+  const validatedInput = generateTraceabilityMatrixSchema.parse(input);
+
+  try {
+    const zephyr = getZephyrClient();
+
+    let jql = validatedInput.jql;
+    if (!jql) {
+      const conditions = [
+        `project = "${validatedInput.projectKey}"`,
+        `fixVersion = "${validatedInput.fixVersion}"`,
+      ];
+      if (validatedInput.issueTypes?.length) {
+        conditions.push(`issuetype in (${validatedInput.issueTypes.map(t => `"${t}"`).join(', ')})`);
+      }
+      jql = `${conditions.join(' AND ')} ORDER BY key ASC`;
+    }
+
+    const requirements = await getJiraClient().searchAllIssues(
+      jql,
+      ['summary', 'status', 'issuetype'],
+      validatedInput.maxRequirements
+    );
+
+    // Index test cases by the Jira issue IDs they link to
+    const testCases = await zephyr.getAllTestCases(validatedInput.projectKey);
+    const testCasesByIssueId = new Map<string, typeof testCases>();
+    for (const testCase of testCases) {
+      for (const link of testCase.links?.issues || []) {
+        const issueId = String(link.issueId);
+        testCasesByIssueId.set(issueId, [...(testCasesByIssueId.get(issueId) || []), testCase]);
+      }
+    }
+
+    const latestExecutions = getLatestExecutionsByTestCase(
+      await zephyr.getAllTestExecutions({ projectKey: validatedInput.projectKey, onlyLastExecutions: true })
+    );
+
+    const rows: MatrixRow[] = requirements.issues.map(issue => {
+      const linked = testCasesByIssueId.get(String(issue.id)) || [];
+      const linkedTestCases = linked.map(tc => {
+        const execution = latestExecutions.get(tc.key);
+        return {
+          key: tc.key,
+          name: tc.name,
+          latestStatus: execution ? normalizeStatus(execution.status) : 'NOT_EXECUTED',
+          executedOn: execution ? getExecutionDate(execution) : undefined,
+          executionKey: execution?.key,
+        };
+      });
+
+      return {
+        issueKey: issue.key,
+        summary: issue.fields?.summary || '',
+        issueType: issue.fields?.issuetype?.name || 'Unknown',
+        status: issue.fields?.status?.name || 'Unknown',
+        coverage: getCoverage(linkedTestCases.map(tc => tc.latestStatus)),
+        testCases: linkedTestCases,
+      };
+    });
+
+    const count = (coverage: Coverage) => rows.filter(row => row.coverage === coverage).length;
+    const summary = {
+      total: rows.length,
+      totalAvailable: requirements.total,
+      passing: count('PASSING'),
+      failing: count('FAILING'),
+      notExecuted: count('NOT_EXECUTED'),
+      inProgress: count('IN_PROGRESS'),
+      uncovered: count('UNCOVERED'),
+      coveragePercentage: rows.length > 0
+        ? Math.round(((rows.length - count('UNCOVERED')) / rows.length) * 100)
+        : 0,
+    };
+
+    return {
+      success: true,
+      data: {
+        jql,
+        summary,
+        highlights: {
+          uncovered: rows.filter(row => row.coverage === 'UNCOVERED').map(row => row.issueKey),
+          failing: rows.filter(row => row.coverage === 'FAILING').map(row => row.issueKey),
+          neverExecuted: rows.filter(row => row.coverage === 'NOT_EXECUTED').map(row => row.issueKey),
+        },
+        matrix: validatedInput.formats.includes('JSON') ? rows : undefined,
+        markdown: validatedInput.formats.includes('MARKDOWN') ? renderMarkdown(rows, summary) : undefined,
+        csv: validatedInput.formats.includes('CSV') ? renderCsv(rows) : undefined,
+        generatedOn: new Date().toISOString(),
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.errorMessages?.[0] || error.response?.data?.message || error.message,
+    };
+  }
+};
@@ -1,10 +1,24 @@
+export interface AdfNode {
+  type: string;
+  text?: string;
+  attrs?: Record<string, any>;
+  marks?: Array<{ type: string; attrs?: Record<string, any> }>;
+  content?: AdfNode[];
+}
+
+export interface AdfDocument extends AdfNode {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
 export interface JiraIssue {
   id: string;
   key: string;
   self: string;
   fields: {
     summary: string;
-    description?: string;
+    description?: AdfDocument | null;
     status: {
       name: string;
       statusCategory: {
@@ -3,8 +3,16 @@ export interface ZephyrTestPlan {
   key: string;
   name: string;
   description?: string;
+  objective?: string;
   projectId: string;
   status: string;
+  labels?: string[];
+  folder?: { id: number; self?: string } | null;
+  owner?: { accountId: string; self?: string } | null;
+  links?: {
+    issues?: ZephyrLink[];
+    testCycles?: ZephyrLink[];
+  };
   createdOn: string;
   updatedOn: string;
   createdBy: {
@@ -13,6 +21,14 @@ export interface ZephyrTestPlan {
   };
 }
 
+export interface ZephyrLink {
+  id: number;
+  self?: string;
+  type?: string;
+  issueId?: number;
+  testCycleId?: number;
+}
+
 export interface ZephyrTestCycle {
   id: string;
   key: string;
@@ -20,6 +36,7 @@ export interface ZephyrTestCycle {
   description?: string;
   projectId: string;
   versionId: string;
+  jiraProjectVersion?: { id: number; self?: string } | null;
   environment?: string;
   status: string;
   plannedStartDate?: string;
@@ -28,6 +45,8 @@ export interface ZephyrTestCycle {
   actualEndDate?: string;
   createdOn: string;
   updatedOn: string;
+  folder?: { id: number; self?: string } | null;
+  owner?: { accountId: string; self?: string } | null;
   executionSummary: {
     total: number;
     passed: number;
@@ -38,14 +57,51 @@ export interface ZephyrTestCycle {
   };
 }
 
+export type ZephyrStatusType = 'TEST_CASE' | 'TEST_PLAN' | 'TEST_CYCLE' | 'TEST_EXECUTION';
+
+export interface ZephyrStatus {
+  id: number;
+  name: string;
+  description?: string;
+  index?: number;
+  archived?: boolean;
+  default?: boolean;
+}
+
+export interface ZephyrPriority {
+  id: number;
+  name: string;
+  description?: string;
+  index?: number;
+  default?: boolean;
+}
+
+export type ZephyrExecutionStatus = 'PASS' | 'FAIL' | 'WIP' | 'BLOCKED' | 'NOT_EXECUTED';
+
 export interface ZephyrTestExecution {
   id: string;
   key: string;
   cycleId: string;
   testCaseId: string;
-  status: 'PASS' | 'FAIL' | 'WIP' | 'BLOCKED' | 'NOT_EXECUTED';
+  testCaseKey?: string;
+  testCase?: {
+    id: number;
+    self: string;
+  };
+  testCycle?: {
+    id: number;
+    self: string;
+  };
+  status: ZephyrExecutionStatus;
+  environment?: string;
+  assignedTo?: {
+    accountId: string;
+    displayName?: string;
+  };
   comment?: string;
   executedOn?: string;
+  actualEndDate?: string;
+  executionTime?: number;
   executedBy?: {
     accountId: string;
     displayName: string;
@@ -56,6 +112,23 @@ export interface ZephyrTestExecution {
   }>;
 }
 
+// One entry of the step list written back to an execution
+export interface ZephyrTestStepUpdate {
+  statusName?: string;
+  actualResult: string;
+  comment?: string;
+}
+
+export interface ZephyrTestStepResult {
+  index: number;
+  statusName?: string;
+  actualResult?: string;
+  comment?: string;
+  description?: string;
+  testData?: string;
+  expectedResult?: string;
+}
+
 export interface ZephyrTestCase {
   id: number;
   key: string;
@@ -123,4 +196,18 @@ export interface ZephyrTestReport {
   summary: ZephyrExecutionSummary;
   executions: ZephyrTestExecution[];
   generatedOn: string;
-}
\ No newline at end of file
+}
+
+export type ZephyrFolderType = 'TEST_CASE' | 'TEST_PLAN' | 'TEST_CYCLE';
+
+export interface ZephyrFolder {
+  id: number;
+  parentId: number | null;
+  name: string;
+  index: number;
+  folderType: ZephyrFolderType;
+  project?: {
+    id: number;
+    self: string;
+  };
+}
@@ -0,0 +1,173 @@
+export interface AcceptanceCriterion {
+  title: string;
+  source: 'GHERKIN' | 'LIST';
+  preconditions: string[];
+  steps: Array<{ action: string; expected: string[] }>;
+}
+
+const GHERKIN_STEP = /^(Given|When|Then|And|But)\b[:\s]*(.*)$/i;
+const SCENARIO = /^Scenario(?: Outline| Template)?\s*:?\s*(.*)$/i;
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const SECTION_TITLE = /^(acceptance criteria|acceptance criterion|ac)\b\s*:?\s*$/i;
+
+// Strips list markers, checkboxes and emphasis so "- **Given** a user" reads as "Given a user"
+const normalizeLine = (line: string): string =>
+  line
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '')
+    .replace(/^\[[ xX]\]\s+/, '')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .replace(/^>\s?/, '')
+    .trim();
+
+/**
+ * Return the lines of the "Acceptance Criteria" section of a Markdown
+ * description, or all lines when the description has no such section.
+ */
+const getCriteriaSection = (markdown: string): { lines: string[]; explicit: boolean } => {
+  const lines = markdown.split(/\r?\n/);
+  const start = lines.findIndex(line => SECTION_TITLE.test(normalizeLine(line.replace(/^#{1,6}\s+/, ''))));
+  if (start === -1) {
+    return { lines, explicit: false };
+  }
+
+  const level = lines[start].match(HEADING)?.[1].length ?? 6;
+  let end = lines.length;
+  for (let i = start + 1; i < lines.length; i++) {
+    const heading = lines[i].match(HEADING);
+    if (heading && heading[1].length <= level) {
+      end = i;
+      break;
+    }
+  }
+
+  return { lines: lines.slice(start + 1, end), explicit: true };
+};
+
+const parseGherkin = (lines: string[]): AcceptanceCriterion[] => {
+  const criteria: AcceptanceCriterion[] = [];
+  let current: AcceptanceCriterion | null = null;
+  let lastKeyword = '';
+  let pendingTitle: string | undefined;
+
+  const start = (title?: string) => {
+    current = { title: title || '', source: 'GHERKIN', preconditions: [], steps: [] };
+    criteria.push(current);
+    lastKeyword = '';
+  };
+
+  for (const raw of lines) {
+    const line = normalizeLine(raw.replace(/^#{1,6}\s+/, ''));
+    if (!line) continue;
+
+    const scenario = line.match(SCENARIO);
+    if (scenario) {
+      pendingTitle = scenario[1].trim();
+      current = null;
+      continue;
+    }
+
+    const step = line.match(GHERKIN_STEP);
+    if (!step) {
+      // A heading or label line between scenarios names the next one
+      if (HEADING.test(raw.trim()) || line.endsWith(':')) {
+        pendingTitle = line.replace(/:$/, '').trim();
+        current = null;
+      }
+      continue;
+    }
+
+    let keyword = step[1].toLowerCase();
+    const text = step[2].trim();
+    if (keyword === 'and' || keyword === 'but') {
+      keyword = lastKeyword || 'given';
+    }
+
+    // A Given after an outcome starts the next scenario
+    if (!current || (keyword === 'given' && (lastKeyword === 'when' || lastKeyword === 'then'))) {
+      start(pendingTitle);
+      pendingTitle = undefined;
+    }
+    const criterion = current!;
+
+    if (keyword === 'given') {
+      criterion.preconditions.push(text);
+    } else if (keyword === 'when') {
+      criterion.steps.push({ action: text, expected: [] });
+    } else {
+      if (criterion.steps.length === 0) {
+        criterion.steps.push({ action: 'Verify the expected outcome', expected: [] });
+      }
+      criterion.steps[criterion.steps.length - 1].expected.push(text);
+    }
+    lastKeyword = keyword;
+  }
+
+  return criteria.filter(criterion => criterion.steps.length > 0 || criterion.preconditions.length > 0);
+};
+
+const toCriterion = (text: string, nested: string[]): AcceptanceCriterion => {
+  const whenThen = text.match(/^(?:when|if)\s+(.+?),?\s+then\s+(.+)$/i);
+  if (nested.length > 0) {
+    return {
+      title: text,
+      source: 'LIST',
+      preconditions: [],
+      steps: nested.map((action, index) => ({
+        action,
+        expected: index === nested.length - 1 ? [text] : [],
+      })),
+    };
+  }
+  return {
+    title: text,
+    source: 'LIST',
+    preconditions: [],
+    steps: [whenThen
+      ? { action: whenThen[1], expected: [whenThen[2]] }
+      : { action: `Verify that ${text.charAt(0).toLowerCase()}${text.slice(1)}`, expected: [text] }],
+  };
+};
+
+const parseList = (lines: string[], explicit: boolean): AcceptanceCriterion[] => {
+  const items: Array<{ text: string; nested: string[] }> = [];
+  let baseIndent = -1;
+
+  for (const line of lines) {
+    const match = line.match(LIST_ITEM);
+    if (!match) continue;
+    const indent = match[1].length;
+    if (baseIndent === -1) baseIndent = indent;
+
+    const text = normalizeLine(match[2]);
+    if (!text) continue;
+    if (indent > baseIndent && items.length > 0) {
+      items[items.length - 1].nested.push(text);
+    } else {
+      items.push({ text, nested: [] });
+    }
+  }
+
+  // Without a list, each line of an explicit criteria section is one criterion
+  if (items.length === 0 && explicit) {
+    items.push(...lines
+      .filter(line => !HEADING.test(line.trim()))
+      .map(line => normalizeLine(line))
+      .filter(Boolean)
+      .map(text => ({ text, nested: [] })));
+  }
+
+  return items.map(item => toCriterion(item.text, item.nested));
+};
+
+/**
+ * Extract acceptance criteria from a Markdown issue description. Given/When/Then
+ * blocks become one criterion per scenario; otherwise each list item of the
+ * acceptance criteria section (or of the whole description) is one criterion.
+ */
+export const parseAcceptanceCriteria = (markdown: string): AcceptanceCriterion[] => {
+  const { lines, explicit } = getCriteriaSection(markdown);
+  // "When X, then Y" list items alone are not Gherkin; a Given or Then line is needed
+  const isGherkin = lines.some(line => /^(Given|Then)\b/i.test(normalizeLine(line)));
+  return isGherkin ? parseGherkin(lines) : parseList(lines, explicit);
+};
@@ -0,0 +1,384 @@
+import { AdfDocument, AdfNode } from '../types/jira-types.js';
+
+type AdfMark = NonNullable<AdfNode['marks']>[number];
+
+export const isAdfDocument = (value: unknown): value is AdfDocument =>
+  typeof value === 'object' && value !== null && (value as AdfNode).type === 'doc';
+
+const PANEL_TYPES = ['info', 'note', 'warning', 'success', 'error'];
+
+// ---------------------------------------------------------------------------
+// ADF -> Markdown
+// ---------------------------------------------------------------------------
+
+const applyMarks = (text: string, marks: AdfMark[] = []): string => {
+  let result = text;
+  const code = marks.some(mark => mark.type === 'code');
+  if (code) {
+    result = `\`${result}\``;
+  }
+  for (const mark of marks) {
+    switch (mark.type) {
+      case 'strong':
+        result = `**${result}**`;
+        break;
+      case 'em':
+        result = `*${result}*`;
+        break;
+      case 'strike':
+        result = `~~${result}~~`;
+        break;
+    }
+  }
+  const link = marks.find(mark => mark.type === 'link');
+  return link?.attrs?.href ? `[${result}](${link.attrs.href})` : result;
+};
+
+const renderInline = (nodes: AdfNode[] = []): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return applyMarks(node.text || '', node.marks);
+      case 'hardBreak':
+        return '\n';
+      case 'mention': {
+        const name = String(node.attrs?.text || '').replace(/^@/, '');
+        return node.attrs?.id ? `[@${name}](accountid:${node.attrs.id})` : `@${name}`;
+      }
+      case 'emoji':
+        return node.attrs?.text || node.attrs?.shortName || '';
+      case 'inlineCard':
+        return node.attrs?.url ? `<${node.attrs.url}>` : '';
+      case 'status':
+        return `[${node.attrs?.text || ''}]`;
+      case 'date':
+        return node.attrs?.timestamp ? new Date(Number(node.attrs.timestamp)).toISOString().slice(0, 10) : '';
+      default:
+        return renderInline(node.content);
+    }
+  }).join('');
+
+const indent = (text: string, prefix: string): string =>
+  text.split('\n').map((line, index) => (index === 0 || line === '' ? line : `${prefix}${line}`)).join('\n');
+
+const renderTableCell = (cell: AdfNode): string =>
+  (cell.content || []).map(renderBlock).join(' ').replace(/\n+/g, ' ').replace(/\|/g, '\\|').trim();
+
+const renderTable = (table: AdfNode): string => {
+  const rows = (table.content || []).map(row => (row.content || []).map(renderTableCell));
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+  const line = (row: string[]) => `| ${pad(row).join(' | ')} |`;
+
+  // Markdown tables always need a header row; an empty one is used when the ADF table has none
+  const hasHeader = (table.content?.[0]?.content || []).every(cell => cell.type === 'tableHeader');
+  const header = hasHeader ? rows[0] : Array(width).fill('');
+  const body = hasHeader ? rows.slice(1) : rows;
+
+  return [line(header), line(Array(width).fill('---')), ...body.map(line)].join('\n');
+};
+
+function renderBlock(node: AdfNode): string {
+  switch (node.type) {
+    case 'paragraph':
+      return renderInline(node.content);
+    case 'heading':
+      return `${'#'.repeat(Math.min(Math.max(node.attrs?.level || 1, 1), 6))} ${renderInline(node.content)}`;
+    case 'bulletList':
+    case 'orderedList': {
+      const start = node.attrs?.order ?? 1;
+      return (node.content || []).map((item, index) => {
+        const marker = node.type === 'orderedList' ? `${start + index}. ` : '- ';
+        const body = (item.content || []).map(renderBlock).join('\n');
+        return `${marker}${indent(body, ' '.repeat(marker.length))}`;
+      }).join('\n');
+    }
+    case 'codeBlock':
+      return `\`\`\`${node.attrs?.language || ''}\n${renderInline(node.content)}\n\`\`\``;
+    case 'blockquote':
+      return renderBlocks(node.content).split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+    case 'panel': {
+      const type = String(node.attrs?.panelType || 'info').toUpperCase();
+      return [`[!${type}]`, ...renderBlocks(node.content).split('\n')].map(line => (line ? `> ${line}` : '>')).join('\n');
+    }
+    case 'rule':
+      return '---';
+    case 'table':
+      return renderTable(node);
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return (node.content || []).map(media => `[attachment: ${media.attrs?.alt || media.attrs?.id || 'media'}]`).join(' ');
+    case 'expand':
+    case 'nestedExpand':
+      return [node.attrs?.title ? `**${node.attrs.title}**` : '', renderBlocks(node.content)].filter(Boolean).join('\n\n');
+    default:
+      return node.content ? renderBlocks(node.content) : renderInline([node]);
+  }
+}
+
+const renderBlocks = (nodes: AdfNode[] = []): string =>
+  nodes.map(renderBlock).filter(block => block !== '').join('\n\n');
+
+/**
+ * Convert an ADF document to Markdown. Plain strings (as returned by older
+ * Jira APIs) are passed through unchanged.
+ */
+export const adfToMarkdown = (value: AdfNode | string | null | undefined): string => {
+  if (!value) return '';
+  if (typeof value === 'string') return value;
+  return (value.type === 'doc' ? renderBlocks(value.content) : renderBlock(value)).trim();
+};
+
+// ---------------------------------------------------------------------------
+// Markdown -> ADF
+// ---------------------------------------------------------------------------
+
+const INLINE_PATTERN = new RegExp([
+  /\\([\\`*_{}[\]()#+\-.!~|>])/.source,
+  /`([^`]+)`/.source,
+  /\[@([^\]]+)\]\(accountid:([^)\s]+)\)/.source,
+  /\[([^\]]+)\]\(([^)\s]+)\)/.source,
+  /\*\*(.+?)\*\*/.source,
+  /__(.+?)__/.source,
+  /~~(.+?)~~/.source,
+  /\*([^*\s](?:[^*]*[^*\s])?)\*/.source,
+  /(?<![\w])_([^_\s](?:[^_]*[^_\s])?)_(?![\w])/.source,
+  /<(https?:\/\/[^>\s]+)>/.source,
+].join('|'));
+
+const parseInline = (text: string, marks: AdfMark[] = []): AdfNode[] => {
+  const nodes: AdfNode[] = [];
+  const pushText = (value: string, nodeMarks: AdfMark[] = marks) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    const sameMarks = JSON.stringify(last?.marks || []) === JSON.stringify(nodeMarks);
+    if (last?.type === 'text' && sameMarks) {
+      last.text += value;
+    } else {
+      nodes.push({ type: 'text', text: value, ...(nodeMarks.length > 0 ? { marks: nodeMarks } : {}) });
+    }
+  };
+
+  // Line breaks inside a paragraph are kept as hard breaks
+  const lines = text.split('\n');
+  lines.forEach((line, lineIndex) => {
+    if (lineIndex > 0) nodes.push({ type: 'hardBreak' });
+
+    let rest = line;
+    while (rest) {
+      const match = INLINE_PATTERN.exec(rest);
+      if (!match) {
+        pushText(rest);
+        break;
+      }
+      pushText(rest.slice(0, match.index));
+      rest = rest.slice(match.index + match[0].length);
+
+      const [, escaped, code, mentionName, mentionId, linkText, linkHref, strong, strong2, strike, em, em2, autolink] = match;
+      if (escaped !== undefined) {
+        pushText(escaped);
+      } else if (code !== undefined) {
+        pushText(code, [...marks.filter(mark => mark.type === 'link'), { type: 'code' }]);
+      } else if (mentionId !== undefined) {
+        nodes.push({ type: 'mention', attrs: { id: mentionId, text: `@${mentionName}` } });
+      } else if (linkHref !== undefined) {
+        nodes.push(...parseInline(linkText, [...marks, { type: 'link', attrs: { href: linkHref } }]));
+      } else if (strong !== undefined || strong2 !== undefined) {
+        nodes.push(...parseInline(strong ?? strong2, [...marks, { type: 'strong' }]));
+      } else if (strike !== undefined) {
+        nodes.push(...parseInline(strike, [...marks, { type: 'strike' }]));
+      } else if (em !== undefined || em2 !== undefined) {
+        nodes.push(...parseInline(em ?? em2, [...marks, { type: 'em' }]));
+      } else if (autolink !== undefined) {
+        nodes.push({ type: 'inlineCard', attrs: { url: autolink } });
+      }
+    }
+  });
+
+  return nodes;
+};
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const isBlockStart = (line: string, next?: string): boolean =>
+  HEADING.test(line) || FENCE.test(line) || RULE.test(line) || LIST_ITEM.test(line)
+  || line.trimStart().startsWith('>')
+  || (line.trimStart().startsWith('|') && next !== undefined && TABLE_SEPARATOR.test(next));
+
+const parseList = (lines: string[]): AdfNode[] => {
+  const lists: AdfNode[] = [];
+  let current: AdfNode | null = null;
+  let baseIndent = -1;
+  let item: { first: string; children: string[]; contentIndent: number } | null = null;
+
+  const flushItem = () => {
+    if (!item || !current) return;
+    const childIndent = item.contentIndent;
+    const children = item.children.map(line => line.slice(Math.min(childIndent, line.length - line.trimStart().length)));
+    current.content!.push({ type: 'listItem', content: parseBlocks([item.first, ...children]) });
+    item = null;
+  };
+
+  for (const line of lines) {
+    const match = line.match(LIST_ITEM);
+    const lineIndent = line.length - line.trimStart().length;
+    if (baseIndent === -1 && match) {
+      baseIndent = lineIndent;
+    }
+
+    if (match && lineIndent <= baseIndent) {
+      flushItem();
+      const ordered = /\d/.test(match[2]);
+      const type = ordered ? 'orderedList' : 'bulletList';
+      if (!current || current.type !== type) {
+        const start = ordered ? parseInt(match[2], 10) : 1;
+        current = { type, ...(start !== 1 ? { attrs: { order: start } } : {}), content: [] };
+        lists.push(current);
+      }
+      item = { first: match[3], children: [], contentIndent: lineIndent + match[2].length + 1 };
+    } else if (item) {
+      item.children.push(line);
+    }
+  }
+  flushItem();
+
+  return lists;
+};
+
+function parseBlocks(lines: string[]): AdfNode[] {
+  const blocks: AdfNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed === '') {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({
+        type: 'codeBlock',
+        ...(fence[2] ? { attrs: { language: fence[2] } } : {}),
+        content: code.length > 0 ? [{ type: 'text', text: code.join('\n') }] : [],
+      });
+      continue;
+    }
+
+    const heading = trimmed.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', attrs: { level: heading[1].length }, content: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (trimmed.startsWith('>')) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith('>')) {
+        quoted.push(lines[i].trim().replace(/^>\s?/, ''));
+        i++;
+      }
+      const panel = quoted[0]?.match(/^\[!(\w+)\]\s*$/);
+      if (panel && PANEL_TYPES.includes(panel[1].toLowerCase())) {
+        blocks.push({ type: 'panel', attrs: { panelType: panel[1].toLowerCase() }, content: parseBlocks(quoted.slice(1)) });
+      } else {
+        blocks.push({ type: 'blockquote', content: parseBlocks(quoted) });
+      }
+      continue;
+    }
+
+    if (trimmed.startsWith('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      const toRow = (cells: string[], cellType: string): AdfNode => ({
+        type: 'tableRow',
+        content: header.map((_, index) => ({
+          type: cellType,
+          content: [{ type: 'paragraph', content: parseInline(cells[index] || '') }],
+        })),
+      });
+      blocks.push({
+        type: 'table',
+        content: [
+          ...(header.some(cell => cell !== '') ? [toRow(header, 'tableHeader')] : []),
+          ...rows.map(row => toRow(row, 'tableCell')),
+        ],
+      });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      // A list runs until a blank line that is not followed by an indented or list line
+      const listLines: string[] = [];
+      while (i < lines.length) {
+        const current = lines[i];
+        if (current.trim() === '') {
+          const next = lines[i + 1];
+          if (next === undefined || !(LIST_ITEM.test(next) || /^\s+\S/.test(next))) break;
+        } else if (listLines.length > 0 && !LIST_ITEM.test(current) && !/^\s/.test(current)) {
+          if (isBlockStart(current, lines[i + 1])) break;
+        }
+        listLines.push(current);
+        i++;
+      }
+      blocks.push(...parseList(listLines));
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() !== '' && (paragraph.length === 0 || !isBlockStart(lines[i], lines[i + 1]))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', content: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Convert Markdown to an ADF document. Supports headings, paragraphs, bullet
+ * and ordered lists (nested by indentation), fenced code blocks, blockquotes,
+ * GitHub-style alerts (`> [!WARNING]`) as panels, tables, rules, links,
+ * `[@Name](accountid:ID)` mentions and bold/italic/strike/code marks.
+ */
+export const markdownToAdf = (markdown: string): AdfDocument => ({
+  type: 'doc',
+  version: 1,
+  content: parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n')),
+});
+
+export const toAdf = (description: string | AdfDocument): AdfDocument =>
+  isAdfDocument(description) ? description : markdownToAdf(description);
@@ -0,0 +1,147 @@
+import { html, SafeHtml } from './html.js';
+
+export interface ChartSegment {
+  label: string;
+  value: number;
+  color: string;
+}
+
+export interface ChartBar {
+  label: string;
+  segments: ChartSegment[];
+}
+
+const legend = (segments: ChartSegment[]): SafeHtml => html`
+  <div class="chart-legend">
+    ${segments.map(segment => html`
+    <span><i style="background:${segment.color}"></i>${segment.label}: ${segment.value}</span>`)}
+  </div>`;
+
+/**
+ * Inline SVG donut chart, one arc per non-empty segment.
+ */
+export const donutChart = (segments: ChartSegment[], centerLabel: string): SafeHtml => {
+  const radius = 60;
+  const circumference = 2 * Math.PI * radius;
+  const total = segments.reduce((sum, segment) => sum + segment.value, 0);
+
+  let offset = 0;
+  const arcs = segments.filter(segment => segment.value > 0).map(segment => {
+    const length = (segment.value / total) * circumference;
+    const arc = html`
+      <circle r="${radius}" cx="80" cy="80" fill="none" stroke="${segment.color}" stroke-width="24"
+        stroke-dasharray="${length.toFixed(2)} ${(circumference - length).toFixed(2)}"
+        stroke-dashoffset="${(-offset).toFixed(2)}" transform="rotate(-90 80 80)">
+        <title>${segment.label}: ${segment.value}</title>
+      </circle>`;
+    offset += length;
+    return arc;
+  });
+
+  return html`
+  <div class="chart">
+    <svg width="160" height="160" viewBox="0 0 160 160" role="img">
+      <circle r="${radius}" cx="80" cy="80" fill="none" stroke="#eee" stroke-width="24"/>
+      ${arcs}
+      <text x="80" y="86" text-anchor="middle" font-size="18" font-weight="bold">${centerLabel}</text>
+    </svg>
+    ${legend(segments)}
+  </div>`;
+};
+
+/**
+ * Inline SVG horizontal stacked bar chart, one bar per group.
+ */
+export const stackedBarChart = (bars: ChartBar[]): SafeHtml => {
+  const labelWidth = 180;
+  const barWidth = 320;
+  const rowHeight = 26;
+  const max = Math.max(1, ...bars.map(bar => bar.segments.reduce((sum, segment) => sum + segment.value, 0)));
+
+  const rows = bars.map((bar, index) => {
+    const y = index * rowHeight;
+    const total = bar.segments.reduce((sum, segment) => sum + segment.value, 0);
+    let x = labelWidth;
+    const rects = bar.segments.filter(segment => segment.value > 0).map(segment => {
+      const width = (segment.value / max) * barWidth;
+      const rect = html`
+        <rect x="${x.toFixed(2)}" y="${y + 4}" width="${width.toFixed(2)}" height="${rowHeight - 8}" fill="${segment.color}">
+          <title>${bar.label} - ${segment.label}: ${segment.value}</title>
+        </rect>`;
+      x += width;
+      return rect;
+    });
+    const label = bar.label.length > 28 ? `${bar.label.slice(0, 27)}…` : bar.label;
+    return html`
+      <text x="0" y="${y + rowHeight / 2 + 4}" font-size="12">${label}<title>${bar.label}</title></text>
+      ${rects}
+      <text x="${(x + 6).toFixed(2)}" y="${y + rowHeight / 2 + 4}" font-size="12">${total}</text>`;
+  });
+
+  const segments = bars[0]?.segments.map(segment => ({
+    ...segment,
+    value: bars.reduce((sum, bar) => sum + (bar.segments.find(s => s.label === segment.label)?.value || 0), 0),
+  })) || [];
+
+  return html`
+  <div class="chart">
+    <svg width="${labelWidth + barWidth + 40}" height="${Math.max(rowHeight, bars.length * rowHeight)}" role="img">
+      ${rows}
+    </svg>
+    ${legend(segments)}
+  </div>`;
+};
+
+const SPARK_BLOCKS = '▁▂▃▄▅▆▇█';
+
+const scale = (values: number[], min?: number, max?: number) => {
+  const low = min ?? Math.min(...values);
+  const high = max ?? Math.max(...values);
+  const range = high - low || 1;
+  return values.map(value => (value - low) / range);
+};
+
+/**
+ * Unicode block sparkline for Markdown and plain text, e.g. "▁▃▅█".
+ */
+export const textSparkline = (values: number[], min?: number, max?: number): string =>
+  values.length === 0
+    ? ''
+    : scale(values, min, max)
+      .map(ratio => SPARK_BLOCKS[Math.round(Math.min(1, Math.max(0, ratio)) * (SPARK_BLOCKS.length - 1))])
+      .join('');
+
+/**
+ * Inline SVG sparkline with a marker on the last point.
+ */
+export const sparkline = (
+  values: number[],
+  options: { color?: string; min?: number; max?: number; labels?: string[] } = {}
+): SafeHtml => {
+  const width = 160;
+  const height = 36;
+  const padding = 4;
+  if (values.length === 0) {
+    return html`<svg width="${width}" height="${height}" role="img"></svg>`;
+  }
+
+  const step = values.length > 1 ? (width - padding * 2) / (values.length - 1) : 0;
+  const points = scale(values, options.min, options.max).map((ratio, index) => ({
+    x: padding + index * step,
+    y: height - padding - ratio * (height - padding * 2),
+    value: values[index],
+    label: options.labels?.[index],
+  }));
+  const last = points[points.length - 1];
+  const color = options.color || '#2196f3';
+
+  return html`
+    <svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img">
+      <polyline fill="none" stroke="${color}" stroke-width="2"
+        points="${points.map(point => `${point.x.toFixed(2)},${point.y.toFixed(2)}`).join(' ')}"/>
+      ${points.map(point => html`
+      <circle cx="${point.x.toFixed(2)}" cy="${point.y.toFixed(2)}" r="${point === last ? 3 : 1.5}" fill="${color}">
+        <title>${point.label ? `${point.label}: ` : ''}${point.value}</title>
+      </circle>`)}
+    </svg>`;
+};
@@ -1,8 +1,11 @@
 import { config } from 'dotenv';
 import { z } from 'zod';
+import { createLogger } from './logger.js';
 
 config();
 
+const logger = createLogger('config');
+
 const configSchema = z.object({
   JIRA_BASE_URL: z.string().url(),
   JIRA_USERNAME: z.string().email(),
@@ -11,6 +14,30 @@ const configSchema = z.object({
   ZEPHYR_REGION: z.enum(['US', 'EU']).default('US'),
 });
 
+// How the MCP server itself is exposed; independent of the JIRA and Zephyr credentials
+const serverConfigSchema = z.object({
+  MCP_TRANSPORT: z.enum(['stdio', 'http']).default('stdio'),
+  MCP_HTTP_HOST: z.string().min(1).default('127.0.0.1'),
+  MCP_HTTP_PORT: z.coerce.number().int().min(1).max(65535).default(3000),
+  MCP_AUTH_TOKENS: z.string().optional()
+    .transform(value => (value || '').split(',').map(token => token.trim()).filter(Boolean)),
+  // Directories that tools taking a file path may read from
+  MCP_FILE_ROOTS: z.string().optional()
+    .transform(value => (value || '').split(',').map(root => root.trim()).filter(Boolean)),
+  MCP_TEMPLATES_DIR: z.string().min(1).optional(),
+});
+
+// Retry and concurrency limits shared by the JIRA and Zephyr clients
+const httpConfigSchema = z.object({
+  HTTP_MAX_RETRIES: z.coerce.number().int().min(0).max(10).default(3),
+  HTTP_RETRY_BASE_DELAY_MS: z.coerce.number().int().min(0).default(500),
+  HTTP_RETRY_MAX_DELAY_MS: z.coerce.number().int().min(0).default(30000),
+  HTTP_MAX_CONCURRENCY: z.coerce.number().int().min(1).default(8),
+});
+
+export type ServerConfig = z.infer<typeof serverConfigSchema>;
+export type HttpConfig = z.infer<typeof httpConfigSchema>;
+
 let cachedConfig: z.infer<typeof configSchema> | null = null;
 
 const validateConfig = () => {
@@ -20,20 +47,23 @@ const validateConfig = () => {
     if (!result.success) {
       const errors = result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
       const errorMessage = `Configuration validation failed:\n${errors.join('\n')}`;
-      console.error(errorMessage);
-      console.error('Please ensure the following environment variables are set:');
-      console.error('- JIRA_BASE_URL (valid URL)');
-      console.error('- JIRA_USERNAME (valid email)');
-      console.error('- JIRA_API_TOKEN (non-empty string)');
-      console.error('- ZEPHYR_API_TOKEN (non-empty string)');
-      console.error('- ZEPHYR_REGION (US or EU, defaults to US)');
+      logger.error('Please ensure the following environment variables are set', {
+        errors,
+        required: [
+          'JIRA_BASE_URL (valid URL)',
+          'JIRA_USERNAME (valid email)',
+          'JIRA_API_TOKEN (non-empty string)',
+          'ZEPHYR_API_TOKEN (non-empty string)',
+          'ZEPHYR_REGION (US or EU, defaults to US)',
+        ],
+      });
       throw new Error(errorMessage);
     }
     
     return result.data;
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error('Failed to validate configuration:', errorMessage);
+    logger.error('Failed to validate configuration', { error: errorMessage });
     throw error;
   }
 };
@@ -45,6 +75,29 @@ export const getAppConfig = () => {
   return cachedConfig;
 };
 
+export const getServerConfig = (): ServerConfig => {
+  const result = serverConfigSchema.safeParse(process.env);
+  if (!result.success) {
+    const errors = result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+    throw new Error(`Server configuration validation failed:\n${errors.join('\n')}`);
+  }
+  return result.data;
+};
+
+let cachedHttpConfig: HttpConfig | null = null;
+
+export const getHttpConfig = (): HttpConfig => {
+  if (!cachedHttpConfig) {
+    const result = httpConfigSchema.safeParse(process.env);
+    if (!result.success) {
+      const errors = result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      throw new Error(`HTTP client configuration validation failed:\n${errors.join('\n')}`);
+    }
+    cachedHttpConfig = result.data;
+  }
+  return cachedHttpConfig;
+};
+
 export const getJiraAuth = () => {
   const config = getAppConfig();
   return {
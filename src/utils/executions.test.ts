@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { ZephyrTestExecution } from '../types/zephyr-types.js';
+import { deriveExecutionStatus, normalizeStatus, summarizeExecutions } from './executions.js';
+
+// Endpoints return statuses as enum values, display names or status objects
+const execution = (status: unknown): ZephyrTestExecution => ({
+  id: '1',
+  key: 'PROJ-E1',
+  cycleId: '10',
+  testCaseId: '100',
+  status: status as ZephyrTestExecution['status'],
+  defects: [],
+});
+
+describe('deriveExecutionStatus', () => {
+  it('fails when any step failed, even if another is blocked', () => {
+    expect(deriveExecutionStatus(['PASS', 'BLOCKED', 'FAIL'])).toBe('FAIL');
+  });
+
+  it('is blocked when a step is blocked and none failed', () => {
+    expect(deriveExecutionStatus(['PASS', 'BLOCKED'])).toBe('BLOCKED');
+  });
+
+  it('passes only when every step passed', () => {
+    expect(deriveExecutionStatus(['PASS', 'PASS'])).toBe('PASS');
+    expect(deriveExecutionStatus(['PASS', 'NOT_EXECUTED'])).toBe('WIP');
+  });
+
+  it('is in progress without any steps', () => {
+    expect(deriveExecutionStatus([])).toBe('WIP');
+  });
+});
+
+describe('normalizeStatus', () => {
+  it('maps enum values, display names and status objects to the same value', () => {
+    expect(normalizeStatus('PASS')).toBe('PASS');
+    expect(normalizeStatus('Pass')).toBe('PASS');
+    expect(normalizeStatus({ name: 'Fail' })).toBe('FAIL');
+    expect(normalizeStatus('Not Executed')).toBe('NOT_EXECUTED');
+  });
+
+  it('treats in progress as WIP', () => {
+    expect(normalizeStatus('In Progress')).toBe('WIP');
+    expect(normalizeStatus({ name: 'In Progress' })).toBe('WIP');
+  });
+
+  it('defaults to NOT_EXECUTED when the status is missing', () => {
+    expect(normalizeStatus(undefined)).toBe('NOT_EXECUTED');
+    expect(normalizeStatus({})).toBe('NOT_EXECUTED');
+  });
+});
+
+describe('summarizeExecutions', () => {
+  it('counts executions by normalized status', () => {
+    const summary = summarizeExecutions([
+      execution('PASS'),
+      execution('Pass'),
+      execution({ name: 'Fail' }),
+      execution('Blocked'),
+      execution('In Progress'),
+      execution(undefined),
+    ]);
+
+    expect(summary).toMatchObject({ total: 6, passed: 2, failed: 1, blocked: 1, inProgress: 1, notExecuted: 1 });
+  });
+
+  it('keeps the pass rate unrounded', () => {
+    const summary = summarizeExecutions([execution('PASS'), execution('FAIL'), execution('FAIL')]);
+    expect(summary.passRate).toBeCloseTo(33.333, 3);
+  });
+
+  it('reports a zero pass rate without executions', () => {
+    expect(summarizeExecutions([]).passRate).toBe(0);
+  });
+});
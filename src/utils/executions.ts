@@ -0,0 +1,83 @@
+import {
+  ZephyrExecutionSummary,
+  ZephyrTestCycle,
+  ZephyrTestExecution,
+} from '../types/zephyr-types.js';
+
+// Executions reference their test case either by key or through a self link
+// such as .../testcases/PROJ-T12/versions/1, depending on the endpoint.
+export const getExecutionTestCaseKey = (execution: ZephyrTestExecution): string | undefined => {
+  if (execution.testCaseKey) {
+    return execution.testCaseKey;
+  }
+  const match = execution.testCase?.self?.match(/\/testcases\/([A-Z][A-Z0-9_]*-T\d+)/);
+  return match?.[1];
+};
+
+// Execution statuses come back as enum values, display names or status
+// objects depending on the endpoint
+export const normalizeStatus = (status: string | { name?: string } | undefined): string => {
+  const raw = typeof status === 'object' ? status?.name : status;
+  const name = (raw || '').toUpperCase().replace(/\s+/g, '_');
+  if (name === 'IN_PROGRESS') return 'WIP';
+  return name || 'NOT_EXECUTED';
+};
+
+// Overall status from step results: any failure fails the execution, then any
+// blocked step blocks it; it only passes when every step passed.
+export const deriveExecutionStatus = (
+  stepStatuses: string[]
+): 'PASS' | 'FAIL' | 'WIP' | 'BLOCKED' => {
+  if (stepStatuses.includes('FAIL')) return 'FAIL';
+  if (stepStatuses.includes('BLOCKED')) return 'BLOCKED';
+  if (stepStatuses.length > 0 && stepStatuses.every(s => s === 'PASS')) return 'PASS';
+  return 'WIP';
+};
+
+export const getExecutionDate = (execution: ZephyrTestExecution): string | undefined =>
+  execution.actualEndDate || execution.executedOn;
+
+// Day a cycle ran (YYYY-MM-DD), falling back to planned and creation dates
+export const getCycleDate = (cycle: ZephyrTestCycle): string =>
+  (cycle.actualStartDate || cycle.plannedStartDate || cycle.createdOn || '').slice(0, 10);
+
+// Keep the most recent execution per test case key
+export const getLatestExecutionsByTestCase = (
+  executions: ZephyrTestExecution[]
+): Map<string, ZephyrTestExecution> => {
+  const latest = new Map<string, ZephyrTestExecution>();
+  for (const execution of executions) {
+    const key = getExecutionTestCaseKey(execution);
+    if (!key) continue;
+    const current = latest.get(key);
+    if (!current || (getExecutionDate(execution) || '') > (getExecutionDate(current) || '')) {
+      latest.set(key, execution);
+    }
+  }
+  return latest;
+};
+
+export const summarizeExecutions = (executions: ZephyrTestExecution[]): ZephyrExecutionSummary => {
+  const summary = { total: 0, passed: 0, failed: 0, blocked: 0, inProgress: 0, notExecuted: 0, passRate: 0 };
+  for (const execution of executions) {
+    summary.total++;
+    switch (normalizeStatus(execution.status)) {
+      case 'PASS':
+        summary.passed++;
+        break;
+      case 'FAIL':
+        summary.failed++;
+        break;
+      case 'BLOCKED':
+        summary.blocked++;
+        break;
+      case 'WIP':
+        summary.inProgress++;
+        break;
+      default:
+        summary.notExecuted++;
+    }
+  }
+  summary.passRate = summary.total > 0 ? (summary.passed / summary.total) * 100 : 0;
+  return summary;
+};
@@ -0,0 +1,92 @@
+import { mkdtemp, mkdir, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { readInputFile, readTemplateFile } from './file-access.js';
+
+let base: string;
+let root: string;
+
+beforeAll(async () => {
+  base = await mkdtemp(path.join(tmpdir(), 'file-access-'));
+  root = path.join(base, 'results');
+  await mkdir(root);
+  await writeFile(path.join(root, 'junit.xml'), '<testsuite/>');
+  await writeFile(path.join(base, 'secret.txt'), 'secret');
+  await mkdir(`${root}-other`);
+  await writeFile(path.join(`${root}-other`, 'junit.xml'), '<other/>');
+  await symlink(path.join(base, 'secret.txt'), path.join(root, 'link.xml'));
+  await mkdir(path.join(base, 'templates'));
+  await writeFile(path.join(base, 'templates', 'plan.html'), '<h1>{{name}}</h1>');
+});
+
+afterAll(async () => {
+  await rm(base, { recursive: true, force: true });
+  await rm(`${root}-other`, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('readInputFile', () => {
+  it('reads any path over stdio when no roots are configured', async () => {
+    vi.stubEnv('MCP_TRANSPORT', 'stdio');
+    vi.stubEnv('MCP_FILE_ROOTS', '');
+    await expect(readInputFile(path.join(base, 'secret.txt'))).resolves.toBe('secret');
+  });
+
+  it('refuses file paths over HTTP when no roots are configured', async () => {
+    vi.stubEnv('MCP_TRANSPORT', 'http');
+    vi.stubEnv('MCP_FILE_ROOTS', '');
+    await expect(readInputFile(path.join(root, 'junit.xml'))).rejects.toThrow(/disabled over HTTP/);
+  });
+
+  describe('with MCP_FILE_ROOTS set', () => {
+    const useRoot = () => {
+      vi.stubEnv('MCP_TRANSPORT', 'http');
+      vi.stubEnv('MCP_FILE_ROOTS', root);
+    };
+
+    it('reads files inside a root', async () => {
+      useRoot();
+      await expect(readInputFile(path.join(root, 'junit.xml'))).resolves.toBe('<testsuite/>');
+    });
+
+    it('rejects ../ segments that leave the root', async () => {
+      useRoot();
+      await expect(readInputFile(path.join(root, '..', 'secret.txt'))).rejects.toThrow(/outside/);
+    });
+
+    it('rejects sibling directories sharing the root as a prefix', async () => {
+      useRoot();
+      await expect(readInputFile(path.join(`${root}-other`, 'junit.xml'))).rejects.toThrow(/outside/);
+    });
+
+    it('rejects symlinks that point outside the root', async () => {
+      useRoot();
+      await expect(readInputFile(path.join(root, 'link.xml'))).rejects.toThrow(/outside/);
+    });
+  });
+});
+
+describe('readTemplateFile', () => {
+  it('refuses templates over HTTP when MCP_TEMPLATES_DIR is not set', async () => {
+    vi.stubEnv('MCP_TRANSPORT', 'http');
+    vi.stubEnv('MCP_TEMPLATES_DIR', undefined);
+    await expect(readTemplateFile(path.join(base, 'templates', 'plan.html'))).rejects.toThrow(/disabled over HTTP/);
+  });
+
+  it('resolves template paths against MCP_TEMPLATES_DIR', async () => {
+    vi.stubEnv('MCP_TRANSPORT', 'http');
+    vi.stubEnv('MCP_TEMPLATES_DIR', path.join(base, 'templates'));
+    await expect(readTemplateFile('plan.html')).resolves.toBe('<h1>{{name}}</h1>');
+  });
+
+  it('rejects template paths that leave MCP_TEMPLATES_DIR', async () => {
+    vi.stubEnv('MCP_TRANSPORT', 'http');
+    vi.stubEnv('MCP_TEMPLATES_DIR', path.join(base, 'templates'));
+    await expect(readTemplateFile('../secret.txt')).rejects.toThrow(/outside/);
+    await expect(readTemplateFile(path.join(base, 'secret.txt'))).rejects.toThrow(/outside/);
+  });
+});
@@ -0,0 +1,51 @@
+import { readFile, realpath } from 'fs/promises';
+import path from 'path';
+import { getServerConfig } from './config.js';
+
+const isInside = (filePath: string, root: string): boolean => {
+  const relative = path.relative(root, filePath);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+};
+
+// Checked before and after resolving symlinks, so neither ../ segments nor a
+// link inside a root can reach files outside of it
+const readInside = async (filePath: string, roots: string[], description: string): Promise<string> => {
+  const outside = new Error(`${filePath} is outside ${description}`);
+  if (!roots.some(root => isInside(filePath, path.resolve(root)))) {
+    throw outside;
+  }
+  const resolved = await realpath(filePath);
+  const resolvedRoots = await Promise.all(roots.map(root => realpath(root).catch(() => path.resolve(root))));
+  if (!resolvedRoots.some(root => isInside(resolved, root))) {
+    throw outside;
+  }
+  return readFile(resolved, 'utf-8');
+};
+
+/**
+ * Read a file named in a tool's input. When MCP_FILE_ROOTS is set only files
+ * under those directories can be read; over HTTP it must be set, otherwise
+ * remote clients could read any file the server can.
+ */
+export const readInputFile = async (filePath: string): Promise<string> => {
+  const { MCP_TRANSPORT, MCP_FILE_ROOTS } = getServerConfig();
+  if (MCP_FILE_ROOTS.length === 0) {
+    if (MCP_TRANSPORT === 'http') {
+      throw new Error('Reading files is disabled over HTTP unless MCP_FILE_ROOTS is set; pass the content instead');
+    }
+    return readFile(filePath, 'utf-8');
+  }
+  return readInside(path.resolve(filePath), MCP_FILE_ROOTS, 'the directories in MCP_FILE_ROOTS');
+};
+
+// Report templates resolve against MCP_TEMPLATES_DIR, which is required over HTTP
+export const readTemplateFile = async (templatePath: string): Promise<string> => {
+  const { MCP_TRANSPORT, MCP_TEMPLATES_DIR } = getServerConfig();
+  if (!MCP_TEMPLATES_DIR) {
+    if (MCP_TRANSPORT === 'http') {
+      throw new Error('templatePath is disabled over HTTP unless MCP_TEMPLATES_DIR is set');
+    }
+    return readFile(templatePath, 'utf-8');
+  }
+  return readInside(path.resolve(MCP_TEMPLATES_DIR, templatePath), [MCP_TEMPLATES_DIR], 'MCP_TEMPLATES_DIR');
+};
@@ -0,0 +1,30 @@
+export const escapeCsvValue = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: unknown[][]): string =>
+  [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\n');
+
+// Percentages are kept unrounded in data and shown with at most one decimal
+export const formatPercent = (value: number): string => `${Math.round(value * 10) / 10}%`;
+
+export const escapeMarkdownCell = (value: unknown): string =>
+  (value === undefined || value === null ? '' : String(value))
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, '<br>');
+
+export const toMarkdownTable = (header: string[], rows: unknown[][]): string =>
+  [
+    `| ${header.map(escapeMarkdownCell).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeMarkdownCell).join(' | ')} |`),
+  ].join('\n');
+
+export const escapeHtml = (value: unknown): string =>
+  (value === undefined || value === null ? '' : String(value))
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
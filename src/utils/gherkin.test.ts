@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { parseCucumberJson, parseFeatureFile, toBddScript } from './gherkin.js';
+
+describe('parseFeatureFile', () => {
+  const feature = parseFeatureFile(`@checkout
+Feature: Checkout
+  Paying for the items in the cart
+
+  Background:
+    Given a signed-in customer
+
+  @PROJ-T7 @smoke
+  Scenario: Pay by card
+    When they pay with a valid card
+    Then the order is confirmed
+
+  Scenario Outline: Reject bad cards
+    When they pay with card "<card>"
+    Then they see "<error>"
+
+    Examples:
+      | card    | error   |
+      | expired | Expired |
+`);
+
+  it('reads the feature, its tags and description', () => {
+    expect(feature).toMatchObject({
+      name: 'Checkout',
+      tags: ['checkout'],
+      description: 'Paying for the items in the cart',
+      background: ['Given a signed-in customer'],
+    });
+  });
+
+  it('reads scenarios with their tags, steps and line numbers', () => {
+    expect(feature.scenarios.map(s => [s.name, s.keyword, s.tags, s.line])).toEqual([
+      ['Pay by card', 'Scenario', ['PROJ-T7', 'smoke'], 9],
+      ['Reject bad cards', 'Scenario Outline', [], 13],
+    ]);
+    expect(feature.scenarios[0].steps).toEqual(['When they pay with a valid card', 'Then the order is confirmed']);
+  });
+
+  it('builds a BDD script from the background, steps and examples', () => {
+    expect(toBddScript(feature, feature.scenarios[1]).split('\n')).toEqual([
+      'Given a signed-in customer',
+      'When they pay with card "<card>"',
+      'Then they see "<error>"',
+      '',
+      'Examples:',
+      '  | card    | error   |',
+      '  | expired | Expired |',
+    ]);
+  });
+});
+
+describe('parseCucumberJson', () => {
+  const step = (status: string, name = 'a step', extra: object = {}) => ({
+    keyword: 'Given ',
+    name,
+    result: { status, duration: 2_000_000, ...extra },
+  });
+
+  it('derives one result per scenario', () => {
+    const results = parseCucumberJson(JSON.stringify([{
+      name: 'Checkout',
+      tags: [{ name: '@checkout' }],
+      elements: [
+        { type: 'background', steps: [step('passed')] },
+        { type: 'scenario', name: 'Pay by card', tags: [{ name: '@PROJ-T7' }], steps: [step('passed')] },
+        {
+          type: 'scenario',
+          name: 'Reject bad cards',
+          steps: [step('passed'), step('failed', 'the card is declined', { error_message: 'boom' }), step('skipped')],
+        },
+        { type: 'scenario', name: 'Gift cards', steps: [step('undefined')] },
+        { type: 'scenario', name: 'Vouchers', steps: [step('skipped')] },
+      ],
+    }]));
+
+    expect(results.map(r => [r.name, r.status])).toEqual([
+      ['Pay by card', 'PASS'],
+      ['Reject bad cards', 'FAIL'],
+      ['Gift cards', 'BLOCKED'],
+      ['Vouchers', 'NOT_EXECUTED'],
+    ]);
+    expect(results[0]).toMatchObject({ feature: 'Checkout', tags: ['PROJ-T7', 'checkout'], durationMs: 4 });
+    expect(results[1]).toMatchObject({ failedStep: 'Given the card is declined', errorMessage: 'boom' });
+  });
+
+  it('rejects reports that are not an array of features', () => {
+    expect(() => parseCucumberJson('{}')).toThrow(/array of features/);
+  });
+});
@@ -0,0 +1,179 @@
+export interface GherkinScenario {
+  name: string;
+  keyword: string;
+  tags: string[];
+  steps: string[];
+  examples: string[];
+  line: number;
+}
+
+export interface GherkinFeature {
+  name: string;
+  description: string;
+  tags: string[];
+  background: string[];
+  scenarios: GherkinScenario[];
+}
+
+const STEP_KEYWORD = /^(Given|When|Then|And|But|\*)\s/;
+const SCENARIO_KEYWORD = /^(Scenario Outline|Scenario Template|Scenario|Example):\s*(.*)$/;
+
+const parseTags = (line: string): string[] =>
+  line.split(/\s+/).filter(tag => tag.startsWith('@')).map(tag => tag.slice(1));
+
+/**
+ * Parse a Gherkin .feature file into its feature, background and scenarios.
+ * Step lines are kept verbatim (including data tables and doc strings) so they
+ * can be stored as a BDD test script. Rules are flattened into the feature.
+ */
+export const parseFeatureFile = (content: string): GherkinFeature => {
+  const feature: GherkinFeature = { name: '', description: '', tags: [], background: [], scenarios: [] };
+  const lines = content.split(/\r?\n/);
+
+  let pendingTags: string[] = [];
+  let section: 'none' | 'feature' | 'background' | 'scenario' | 'examples' = 'none';
+  let current: GherkinScenario | null = null;
+  let docString: string | null = null;
+  const description: string[] = [];
+
+  const target = (): string[] | null => {
+    if (section === 'background') return feature.background;
+    if (section === 'scenario' && current) return current.steps;
+    if (section === 'examples' && current) return current.examples;
+    return null;
+  };
+
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+
+    // Doc strings are copied as-is until the closing delimiter
+    if (docString !== null) {
+      target()?.push(raw.replace(/^\s+/, '    '));
+      if (line.startsWith(docString)) {
+        docString = null;
+      }
+      return;
+    }
+
+    if (line === '' || line.startsWith('#')) {
+      return;
+    }
+
+    if (line.startsWith('@')) {
+      pendingTags.push(...parseTags(line));
+      return;
+    }
+
+    const scenarioMatch = line.match(SCENARIO_KEYWORD);
+    if (line.startsWith('Feature:')) {
+      feature.name = line.slice('Feature:'.length).trim();
+      feature.tags = pendingTags;
+      pendingTags = [];
+      section = 'feature';
+    } else if (line.startsWith('Rule:')) {
+      pendingTags = [];
+      section = 'feature';
+    } else if (line.startsWith('Background:')) {
+      section = 'background';
+    } else if (scenarioMatch) {
+      current = {
+        name: scenarioMatch[2].trim(),
+        keyword: scenarioMatch[1],
+        tags: pendingTags,
+        steps: [],
+        examples: [],
+        line: index + 1,
+      };
+      feature.scenarios.push(current);
+      pendingTags = [];
+      section = 'scenario';
+    } else if (line.startsWith('Examples:') || line.startsWith('Scenarios:')) {
+      if (current) {
+        current.examples.push(line);
+      }
+      pendingTags = [];
+      section = 'examples';
+    } else if (STEP_KEYWORD.test(line)) {
+      target()?.push(line);
+    } else if (line.startsWith('|')) {
+      target()?.push(`  ${line}`);
+    } else if (line.startsWith('"""') || line.startsWith('```')) {
+      docString = line.slice(0, 3);
+      target()?.push(`    ${line}`);
+    } else if (section === 'feature') {
+      description.push(line);
+    }
+  });
+
+  feature.description = description.join('\n');
+  return feature;
+};
+
+export const toBddScript = (feature: GherkinFeature, scenario: GherkinScenario): string =>
+  [...feature.background, ...scenario.steps, ...(scenario.examples.length > 0 ? ['', ...scenario.examples] : [])]
+    .join('\n');
+
+export interface CucumberScenarioResult {
+  feature: string;
+  name: string;
+  tags: string[];
+  status: 'PASS' | 'FAIL' | 'BLOCKED' | 'NOT_EXECUTED';
+  durationMs?: number;
+  failedStep?: string;
+  errorMessage?: string;
+}
+
+/**
+ * Flatten a Cucumber JSON report into one result per scenario. Background
+ * steps are attributed to the scenario that follows them.
+ */
+export const parseCucumberJson = (content: string): CucumberScenarioResult[] => {
+  const report = JSON.parse(content);
+  if (!Array.isArray(report)) {
+    throw new Error('Cucumber JSON report must be an array of features');
+  }
+
+  const results: CucumberScenarioResult[] = [];
+  for (const feature of report) {
+    let backgroundSteps: any[] = [];
+
+    for (const element of feature.elements || []) {
+      if (element.type === 'background') {
+        backgroundSteps = element.steps || [];
+        continue;
+      }
+
+      const steps = [...backgroundSteps, ...(element.before || []), ...(element.steps || []), ...(element.after || [])];
+      backgroundSteps = [];
+      const statuses: string[] = steps.map((step: any) => step.result?.status || 'undefined');
+      const failed = steps.find((step: any) => step.result?.status === 'failed');
+      const durationNs = steps.reduce((total: number, step: any) => total + (step.result?.duration || 0), 0);
+
+      let status: CucumberScenarioResult['status'] = 'PASS';
+      if (statuses.includes('failed')) {
+        status = 'FAIL';
+      } else if (statuses.some(s => ['undefined', 'pending', 'ambiguous'].includes(s))) {
+        status = 'BLOCKED';
+      } else if (statuses.length === 0 || statuses.every(s => s === 'skipped')) {
+        status = 'NOT_EXECUTED';
+      }
+
+      results.push({
+        feature: feature.name || feature.uri || '',
+        name: element.name || '',
+        // Scenario tags come first so a scenario's own key tag wins over the feature's
+        tags: Array.from(new Set([
+          ...(element.tags || []),
+          ...(feature.tags || []),
+        ].map((tag: any) => String(tag.name || tag).replace(/^@/, '')))),
+        status,
+        // Cucumber reports durations in nanoseconds
+        durationMs: durationNs > 0 ? Math.round(durationNs / 1e6) : undefined,
+        failedStep: failed ? `${(failed.keyword || '').trim()} ${failed.name || ''}`.trim() : undefined,
+        errorMessage: failed?.result?.error_message,
+      });
+    }
+  }
+
+  return results;
+};
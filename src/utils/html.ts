@@ -0,0 +1,38 @@
+import { escapeHtml } from './format.js';
+
+/**
+ * Markup that has already been escaped or built with the html tag and can be
+ * inserted into another template as-is.
+ */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+export const raw = (value: string): SafeHtml => new SafeHtml(value);
+
+const renderValue = (value: unknown): string => {
+  if (value instanceof SafeHtml) return value.value;
+  if (Array.isArray(value)) return value.map(renderValue).join('');
+  if (value === undefined || value === null || value === false) return '';
+  return escapeHtml(value);
+};
+
+/**
+ * Tagged template that escapes every interpolated value unless it is SafeHtml.
+ * Arrays are rendered item by item, and undefined, null and false render as nothing.
+ */
+export const html = (strings: TemplateStringsArray, ...values: unknown[]): SafeHtml =>
+  raw(strings.reduce((output, part, index) =>
+    output + part + (index < values.length ? renderValue(values[index]) : ''), ''));
+
+/**
+ * Fill a user supplied template. `{{name}}` inserts an escaped value and
+ * `{{{name}}}` inserts a value without escaping; unknown names render as nothing.
+ */
+export const renderTemplate = (template: string, context: Record<string, unknown>): string =>
+  template.replace(/\{\{\{\s*(\w+)\s*\}\}\}|\{\{\s*(\w+)\s*\}\}/g, (_, rawName?: string, name?: string) =>
+    rawName !== undefined ? String(context[rawName] ?? '') : escapeHtml(context[name!]));
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseJUnitXml } from './junit.js';
+
+describe('parseJUnitXml', () => {
+  it('reads statuses, durations and failure details from every suite', () => {
+    const testCases = parseJUnitXml(`<?xml version="1.0" encoding="UTF-8"?>
+      <testsuites>
+        <testsuite name="auth">
+          <testcase classname="auth.Login" name="accepts valid credentials" time="0.25"/>
+          <testcase classname="auth.Login" name="rejects bad password" time="1.5">
+            <failure message="expected 401" type="AssertionError">stack &amp; trace</failure>
+          </testcase>
+        </testsuite>
+        <testsuite name="profile">
+          <testcase classname="profile.Avatar" name="uploads an avatar">
+            <skipped/>
+          </testcase>
+          <testcase classname="profile.Avatar" name="crops an avatar">
+            <error type="TimeoutError"/>
+          </testcase>
+        </testsuite>
+      </testsuites>`);
+
+    expect(testCases.map(tc => [tc.name, tc.status])).toEqual([
+      ['accepts valid credentials', 'PASS'],
+      ['rejects bad password', 'FAIL'],
+      ['uploads an avatar', 'NOT_EXECUTED'],
+      ['crops an avatar', 'FAIL'],
+    ]);
+    expect(testCases[0]).toMatchObject({ suite: 'auth', classname: 'auth.Login', durationMs: 250 });
+    expect(testCases[1]).toMatchObject({ message: 'expected 401', details: 'stack & trace' });
+    expect(testCases[3].message).toBe('TimeoutError');
+  });
+
+  it('reads test case properties', () => {
+    const [testCase] = parseJUnitXml(`
+      <testsuite name="api">
+        <testcase name="creates an order">
+          <properties><property name="testCaseKey" value="PROJ-T12"/></properties>
+        </testcase>
+      </testsuite>`);
+
+    expect(testCase.properties).toEqual({ testCaseKey: 'PROJ-T12' });
+  });
+
+  it('accepts bare test cases without a suite', () => {
+    expect(parseJUnitXml('<testcase name="standalone"/>')).toHaveLength(1);
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseJUnitXml('<testsuite><testcase name="x"></testsuite>')).toThrow(/Malformed XML/);
+  });
+});
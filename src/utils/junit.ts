@@ -0,0 +1,71 @@
+import { parseXml, findElements, XmlElement } from './xml.js';
+
+export interface JUnitTestCase {
+  name: string;
+  classname?: string;
+  suite?: string;
+  status: 'PASS' | 'FAIL' | 'BLOCKED' | 'NOT_EXECUTED';
+  durationMs?: number;
+  message?: string;
+  details?: string;
+  properties: Record<string, string>;
+}
+
+const getProperties = (element: XmlElement): Record<string, string> => {
+  const properties: Record<string, string> = {};
+  for (const container of element.children.filter(c => c.name === 'properties')) {
+    for (const property of container.children.filter(c => c.name === 'property')) {
+      if (property.attributes.name) {
+        properties[property.attributes.name] = property.attributes.value ?? property.text.trim();
+      }
+    }
+  }
+  return properties;
+};
+
+const toTestCase = (element: XmlElement, suite?: string): JUnitTestCase => {
+  const failure = element.children.find(c => c.name === 'failure' || c.name === 'error');
+  const skipped = element.children.find(c => c.name === 'skipped');
+  const seconds = element.attributes.time !== undefined ? Number(element.attributes.time) : NaN;
+
+  let status: JUnitTestCase['status'] = 'PASS';
+  if (failure) {
+    status = 'FAIL';
+  } else if (skipped) {
+    status = 'NOT_EXECUTED';
+  }
+
+  const result = failure || skipped;
+  return {
+    name: element.attributes.name || '',
+    classname: element.attributes.classname,
+    suite,
+    status,
+    durationMs: Number.isFinite(seconds) ? Math.round(seconds * 1000) : undefined,
+    message: result?.attributes.message || result?.attributes.type,
+    details: result?.text.trim() || undefined,
+    properties: getProperties(element),
+  };
+};
+
+/**
+ * Parse a JUnit XML report (either a <testsuites> or a single <testsuite>
+ * root) into a flat list of test cases.
+ */
+export const parseJUnitXml = (content: string): JUnitTestCase[] => {
+  const document = parseXml(content);
+  const testCases: JUnitTestCase[] = [];
+
+  for (const suite of findElements(document, 'testsuite')) {
+    for (const testCase of suite.children.filter(c => c.name === 'testcase')) {
+      testCases.push(toTestCase(testCase, suite.attributes.name));
+    }
+  }
+
+  // Some tools emit bare <testcase> elements without a surrounding suite
+  if (testCases.length === 0) {
+    testCases.push(...findElements(document, 'testcase').map(tc => toTestCase(tc)));
+  }
+
+  return testCases;
+};
@@ -0,0 +1,160 @@
+import { appendFileSync } from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingLevel, SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+// stdout carries the stdio JSON-RPC stream, so log lines go to stderr or LOG_FILE only.
+// LOG_LEVEL is one of debug, info, notice, warning, error (default info).
+
+const LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+const REDACTED = '[REDACTED]';
+const SECRET_KEY = /authorization|password|passwd|secret|token|api[-_]?key|cookie/i;
+const SECRET_ENV_VARS = ['JIRA_API_TOKEN', 'ZEPHYR_API_TOKEN', 'MCP_AUTH_TOKENS'];
+
+const isEnabled = (level: LoggingLevel, threshold: LoggingLevel) =>
+  LEVELS.indexOf(level) >= LEVELS.indexOf(threshold);
+
+const getLogLevel = (): LoggingLevel => {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  if (level === 'warn') return 'warning';
+  return LEVELS.includes(level as LoggingLevel) ? level as LoggingLevel : 'info';
+};
+
+const getSecretValues = (): string[] =>
+  SECRET_ENV_VARS
+    .flatMap(name => (process.env[name] || '').split(','))
+    .map(value => value.trim())
+    .filter(value => value.length >= 6);
+
+const redactString = (text: string, secrets: string[]): string =>
+  secrets
+    .reduce((result, secret) => result.split(secret).join(REDACTED), text)
+    .replace(/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`);
+
+// Axios errors carry the request config, including the Authorization header;
+// only the parts worth logging are kept.
+const serializeError = (error: Error & { response?: any; code?: string }) => ({
+  name: error.name,
+  message: error.message,
+  code: error.code,
+  status: error.response?.status,
+  response: error.response?.data,
+});
+
+const redact = (value: unknown, secrets: string[], seen = new WeakSet<object>(), depth = 0): unknown => {
+  if (typeof value === 'string') {
+    return redactString(value, secrets);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value) || depth > 6) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  let result: unknown;
+  if (value instanceof Error) {
+    result = redact(serializeError(value), secrets, seen, depth + 1);
+  } else if (Array.isArray(value)) {
+    result = value.map(item => redact(item, secrets, seen, depth + 1));
+  } else {
+    result = Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY.test(key) && item !== undefined && item !== null ? REDACTED : redact(item, secrets, seen, depth + 1),
+    ]));
+  }
+
+  // Only ancestors count as cycles; the same object may appear twice side by side
+  seen.delete(value);
+  return result;
+};
+
+interface NotificationSink {
+  server: Server;
+  level: LoggingLevel;
+}
+
+const sinks = new Set<NotificationSink>();
+const currentServer = new AsyncLocalStorage<Server>();
+
+/**
+ * Forward log entries to an MCP client as notifications/message, honouring
+ * the level the client sets with logging/setLevel.
+ */
+export const attachLogNotifications = (server: Server): void => {
+  const sink: NotificationSink = { server, level: getLogLevel() };
+  sinks.add(sink);
+
+  server.setRequestHandler(SetLevelRequestSchema, async request => {
+    sink.level = request.params.level;
+    return {};
+  });
+
+  const onclose = server.onclose;
+  server.onclose = () => {
+    sinks.delete(sink);
+    onclose?.();
+  };
+};
+
+/**
+ * Run a request handler so that what it logs is sent to the client of that
+ * server. Entries logged outside any handler only reach stderr or LOG_FILE,
+ * since they may belong to another client's session.
+ */
+export const withLogNotifications = <T>(server: Server, handler: () => Promise<T>): Promise<T> =>
+  currentServer.run(server, handler);
+
+const write = (level: LoggingLevel, name: string, message: string, data?: unknown) => {
+  const secrets = getSecretValues();
+  const details = data === undefined ? undefined : redact(data, secrets);
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    logger: name,
+    message: redactString(message, secrets),
+    ...(details !== undefined && { data: details }),
+  };
+
+  if (isEnabled(level, getLogLevel())) {
+    const line = `${JSON.stringify(entry)}\n`;
+    if (process.env.LOG_FILE) {
+      try {
+        appendFileSync(process.env.LOG_FILE, line);
+      } catch {
+        process.stderr.write(line);
+      }
+    } else {
+      process.stderr.write(line);
+    }
+  }
+
+  const server = currentServer.getStore();
+  if (!server) {
+    return;
+  }
+  for (const sink of sinks) {
+    // Nothing is sent before the client has finished initializing
+    const initialized = sink.server.getClientCapabilities() !== undefined;
+    if (initialized && sink.server === server && isEnabled(level, sink.level)) {
+      sink.server
+        .sendLoggingMessage({ level, logger: name, data: { message: entry.message, ...(details !== undefined && { details }) } })
+        .catch(() => undefined);
+    }
+  }
+};
+
+export interface Logger {
+  debug: (message: string, data?: unknown) => void;
+  info: (message: string, data?: unknown) => void;
+  warn: (message: string, data?: unknown) => void;
+  error: (message: string, data?: unknown) => void;
+}
+
+export const createLogger = (name: string): Logger => ({
+  debug: (message, data) => write('debug', name, message, data),
+  info: (message, data) => write('info', name, message, data),
+  warn: (message, data) => write('warning', name, message, data),
+  error: (message, data) => write('error', name, message, data),
+});
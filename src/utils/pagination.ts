@@ -0,0 +1,30 @@
+export interface Page<T> {
+  values: T[];
+  total: number;
+  startAt: number;
+  isLast: boolean;
+}
+
+// Cursor for the page after this one, null once the last page has been read
+export const getNextStartAt = (page: Page<unknown>): number | null =>
+  page.isLast || page.values.length === 0 ? null : page.startAt + page.values.length;
+
+/**
+ * Read pages until the API reports the last one (or maxItems have been
+ * collected), requesting each page from where the previous one ended.
+ */
+export const collectPages = async <T>(
+  fetchPage: (startAt: number) => Promise<Page<T>>,
+  maxItems = Infinity
+): Promise<T[]> => {
+  const values: T[] = [];
+  let startAt: number | null = 0;
+
+  while (startAt !== null && values.length < maxItems) {
+    const page: Page<T> = await fetchPage(startAt);
+    values.push(...page.values);
+    startAt = getNextStartAt(page);
+  }
+
+  return values.slice(0, maxItems);
+};
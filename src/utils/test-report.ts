@@ -0,0 +1,397 @@
+import { ZephyrExecutionSummary } from '../types/zephyr-types.js';
+import { toCsv, toMarkdownTable } from './format.js';
+import { html, raw, renderTemplate } from './html.js';
+import { donutChart, stackedBarChart, ChartBar, ChartSegment } from './charts.js';
+import { escapeXml } from './xml.js';
+
+export interface TestReportStepFailure {
+  index: number;
+  status: string;
+  description?: string;
+  expectedResult?: string;
+  actualResult?: string;
+}
+
+export interface TestReportExecution {
+  key: string;
+  testCaseKey: string;
+  testCaseName: string;
+  status: string;
+  environment?: string;
+  executedBy?: string;
+  executedOn?: string;
+  durationMs?: number;
+  comment?: string;
+  folder?: string;
+  priority?: string;
+  failedSteps: TestReportStepFailure[];
+  defects: Array<{ key: string; summary?: string; url?: string }>;
+}
+
+/**
+ * The report model shared by every generate_test_report format.
+ */
+export interface TestReportModel {
+  cycleId: string;
+  cycleName: string;
+  projectKey: string;
+  summary: ZephyrExecutionSummary;
+  executions: TestReportExecution[];
+  generatedOn: string;
+}
+
+const formatDuration = (durationMs?: number): string => {
+  if (durationMs === undefined) return '';
+  if (durationMs < 1000) return `${durationMs} ms`;
+  const seconds = Math.round(durationMs / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const describeStep = (step: TestReportStepFailure): string => {
+  const details = [
+    step.expectedResult ? `expected: ${step.expectedResult}` : '',
+    step.actualResult ? `actual: ${step.actualResult}` : '',
+  ].filter(Boolean);
+  return `Step ${step.index} ${step.status}${step.description ? `: ${step.description}` : ''}`
+    + (details.length > 0 ? ` (${details.join('; ')})` : '');
+};
+
+export const renderMarkdownReport = (report: TestReportModel): string => {
+  const lines = [
+    `# Test Execution Report - ${report.cycleName}`,
+    '',
+    `Project: ${report.projectKey || 'Unknown'} | Cycle: ${report.cycleId} | Generated: ${report.generatedOn}`,
+    '',
+    toMarkdownTable(
+      ['Total', 'Passed', 'Failed', 'Blocked', 'In Progress', 'Not Executed', 'Pass Rate'],
+      [[
+        report.summary.total,
+        report.summary.passed,
+        report.summary.failed,
+        report.summary.blocked,
+        report.summary.inProgress,
+        report.summary.notExecuted,
+        `${Math.round(report.summary.passRate)}%`,
+      ]]
+    ),
+    '',
+    '## Executions',
+    '',
+    toMarkdownTable(
+      ['Execution', 'Test Case', 'Name', 'Status', 'Duration', 'Defects'],
+      report.executions.map(execution => [
+        execution.key,
+        execution.testCaseKey,
+        execution.testCaseName,
+        execution.status,
+        formatDuration(execution.durationMs),
+        execution.defects.map(defect => defect.key).join(', '),
+      ])
+    ),
+  ];
+
+  const failures = report.executions.filter(execution => execution.status === 'FAIL' || execution.status === 'BLOCKED');
+  if (failures.length > 0) {
+    lines.push('', '## Failures');
+    for (const execution of failures) {
+      lines.push('', `### ${execution.testCaseKey} - ${execution.testCaseName} (${execution.status})`);
+      for (const step of execution.failedSteps) {
+        lines.push(`- ${describeStep(step)}`);
+      }
+      if (execution.comment) {
+        lines.push('', `> ${execution.comment.replace(/\r?\n/g, '\n> ')}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+};
+
+export const renderCsvReport = (report: TestReportModel): string =>
+  toCsv(
+    [
+      'Execution Key', 'Test Case Key', 'Test Case Name', 'Status', 'Environment', 'Executed By',
+      'Executed On', 'Duration (ms)', 'Failed Steps', 'Defects', 'Comment',
+    ],
+    report.executions.map(execution => [
+      execution.key,
+      execution.testCaseKey,
+      execution.testCaseName,
+      execution.status,
+      execution.environment,
+      execution.executedBy,
+      execution.executedOn,
+      execution.durationMs,
+      execution.failedSteps.map(describeStep).join('; '),
+      execution.defects.map(defect => defect.key).join(' '),
+      execution.comment,
+    ])
+  );
+
+/**
+ * Render the report as JUnit XML: one <testsuite> for the cycle and one
+ * <testcase> per execution. Failures map to <failure>, blocked executions to
+ * <error> and anything not finished to <skipped>.
+ */
+export const renderJUnitReport = (report: TestReportModel): string => {
+  const attr = (value: unknown) => escapeXml(value === undefined || value === null ? '' : String(value));
+  const seconds = (durationMs?: number) => ((durationMs || 0) / 1000).toFixed(3);
+  const totalMs = report.executions.reduce((total, execution) => total + (execution.durationMs || 0), 0);
+  const failures = report.executions.filter(execution => execution.status === 'FAIL').length;
+  const errors = report.executions.filter(execution => execution.status === 'BLOCKED').length;
+  const skipped = report.executions.filter(execution => !['PASS', 'FAIL', 'BLOCKED'].includes(execution.status)).length;
+
+  const testCases = report.executions.map(execution => {
+    const details = [
+      ...execution.failedSteps.map(describeStep),
+      ...(execution.comment ? [execution.comment] : []),
+    ].join('\n');
+    const message = execution.failedSteps[0] ? describeStep(execution.failedSteps[0]) : execution.comment || execution.status;
+
+    let result = '';
+    if (execution.status === 'FAIL') {
+      result = `\n      <failure message="${attr(message)}" type="FAIL">${escapeXml(details)}</failure>`;
+    } else if (execution.status === 'BLOCKED') {
+      result = `\n      <error message="${attr(message)}" type="BLOCKED">${escapeXml(details)}</error>`;
+    } else if (execution.status !== 'PASS') {
+      result = `\n      <skipped message="${attr(execution.status)}"/>`;
+    }
+
+    const properties = [
+      ['execution', execution.key],
+      ['environment', execution.environment],
+      ['defects', execution.defects.map(defect => defect.key).join(',')],
+    ].filter(([, value]) => value);
+
+    return [
+      `    <testcase name="${attr(execution.testCaseName)}" classname="${attr(execution.testCaseKey)}" time="${seconds(execution.durationMs)}">`,
+      properties.length > 0
+        ? `\n      <properties>${properties.map(([name, value]) => `\n        <property name="${attr(name)}" value="${attr(value)}"/>`).join('')}\n      </properties>`
+        : '',
+      result,
+      '\n    </testcase>',
+    ].join('');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${attr(report.cycleName)}" tests="${report.executions.length}" failures="${failures}" errors="${errors}" skipped="${skipped}" time="${seconds(totalMs)}">`,
+    `  <testsuite name="${attr(report.cycleName)}" id="${attr(report.cycleId)}" package="${attr(report.projectKey)}" tests="${report.executions.length}" failures="${failures}" errors="${errors}" skipped="${skipped}" time="${seconds(totalMs)}" timestamp="${attr(report.generatedOn)}">`,
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+  ].join('\n');
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  PASS: '#4caf50',
+  FAIL: '#f44336',
+  BLOCKED: '#ff9800',
+  WIP: '#2196f3',
+  NOT_EXECUTED: '#9e9e9e',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  PASS: 'Passed',
+  FAIL: 'Failed',
+  BLOCKED: 'Blocked',
+  WIP: 'In Progress',
+  NOT_EXECUTED: 'Not Executed',
+};
+
+const statusSegments = (executions: TestReportExecution[]): ChartSegment[] =>
+  Object.keys(STATUS_COLORS).map(status => ({
+    label: STATUS_LABELS[status],
+    value: executions.filter(execution => (STATUS_COLORS[execution.status] ? execution.status : 'NOT_EXECUTED') === status).length,
+    color: STATUS_COLORS[status],
+  }));
+
+const groupBars = (executions: TestReportExecution[], groupOf: (execution: TestReportExecution) => string | undefined): ChartBar[] => {
+  const groups = new Map<string, TestReportExecution[]>();
+  for (const execution of executions) {
+    const group = groupOf(execution) || 'None';
+    groups.set(group, [...(groups.get(group) || []), execution]);
+  }
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, grouped]) => ({ label, segments: statusSegments(grouped) }));
+};
+
+const HTML_STYLES = `
+    body { font-family: Arial, sans-serif; margin: 20px; }
+    .header { background-color: #f5f5f5; padding: 20px; border-radius: 5px; }
+    .summary { display: flex; gap: 20px; margin: 20px 0; }
+    .metric { background-color: #e8f4f8; padding: 15px; border-radius: 5px; text-align: center; }
+    .metric h3 { margin: 0 0 10px 0; }
+    .metric .value { font-size: 24px; font-weight: bold; }
+    .charts { display: flex; flex-wrap: wrap; gap: 40px; margin: 20px 0; }
+    .chart-legend span { display: inline-block; margin-right: 12px; font-size: 12px; }
+    .chart-legend i { display: inline-block; width: 10px; height: 10px; margin-right: 4px; }
+    .filters { margin: 10px 0; display: flex; gap: 10px; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border: 1px solid #ddd; padding: 6px 10px; text-align: left; vertical-align: top; }
+    th { background-color: #f5f5f5; cursor: pointer; user-select: none; }
+    th[data-sort="asc"]::after { content: " \\25B2"; }
+    th[data-sort="desc"]::after { content: " \\25BC"; }
+    td.status { font-weight: bold; }
+    tr.pass td.status { color: #4caf50; }
+    tr.fail td.status { color: #f44336; }
+    tr.blocked td.status { color: #ff9800; }
+    tr.wip td.status { color: #2196f3; }
+    ul.steps { margin: 4px 0; padding-left: 18px; }
+`;
+
+const HTML_SCRIPT = `
+    document.querySelectorAll('table.sortable th').forEach(function (th, column) {
+      th.addEventListener('click', function () {
+        var table = th.closest('table');
+        var body = table.tBodies[0];
+        var ascending = th.dataset.sort !== 'asc';
+        table.querySelectorAll('th').forEach(function (other) { delete other.dataset.sort; });
+        th.dataset.sort = ascending ? 'asc' : 'desc';
+        var value = function (row) {
+          var cell = row.cells[column];
+          return cell.dataset.value !== undefined ? cell.dataset.value : cell.textContent.trim();
+        };
+        Array.from(body.rows).sort(function (a, b) {
+          var x = value(a), y = value(b);
+          var result = !isNaN(parseFloat(x)) && !isNaN(parseFloat(y)) ? parseFloat(x) - parseFloat(y) : x.localeCompare(y);
+          return ascending ? result : -result;
+        }).forEach(function (row) { body.appendChild(row); });
+      });
+    });
+    var search = document.getElementById('execution-search');
+    var statusFilter = document.getElementById('execution-status');
+    var applyFilters = function () {
+      var text = search.value.toLowerCase();
+      var status = statusFilter.value;
+      document.querySelectorAll('#executions tbody tr').forEach(function (row) {
+        row.hidden = row.textContent.toLowerCase().indexOf(text) === -1 || (status !== '' && row.dataset.status !== status);
+      });
+    };
+    search.addEventListener('input', applyFilters);
+    statusFilter.addEventListener('change', applyFilters);
+`;
+
+export const DEFAULT_HTML_TEMPLATE = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>{{title}}</title>
+  <style>{{{styles}}}</style>
+</head>
+<body>
+  {{{header}}}
+  {{{summary}}}
+  {{{charts}}}
+  {{{executions}}}
+  <script>{{{script}}}</script>
+</body>
+</html>
+`;
+
+/**
+ * Render the report as a standalone HTML page. Every value from Zephyr is
+ * escaped by the html template tag. A custom template can use the same
+ * placeholders as DEFAULT_HTML_TEMPLATE: `{{title}}`, `{{cycleName}}`,
+ * `{{projectKey}}`, `{{generatedOn}}`, `{{passRate}}` and the prebuilt sections
+ * `{{{styles}}}`, `{{{header}}}`, `{{{summary}}}`, `{{{charts}}}`,
+ * `{{{executions}}}` and `{{{script}}}`.
+ */
+export const renderHtmlReport = (report: TestReportModel, template = DEFAULT_HTML_TEMPLATE): string => {
+  const passRate = `${Math.round(report.summary.passRate)}%`;
+
+  const header = html`
+  <div class="header">
+    <h1>Test Execution Report</h1>
+    <h2>${report.cycleName}</h2>
+    <p>Project: ${report.projectKey}</p>
+    <p>Generated: ${new Date(report.generatedOn).toLocaleString()}</p>
+  </div>`;
+
+  const metric = (label: string, value: string | number) => html`
+    <div class="metric">
+      <h3>${label}</h3>
+      <div class="value">${value}</div>
+    </div>`;
+
+  const summary = html`
+  <div class="summary">
+    ${metric('Total Tests', report.summary.total)}
+    ${metric('Passed', report.summary.passed)}
+    ${metric('Failed', report.summary.failed)}
+    ${metric('Blocked', report.summary.blocked)}
+    ${metric('Pass Rate', passRate)}
+  </div>`;
+
+  const charts = html`
+  <div class="charts">
+    <div>
+      <h3>Status</h3>
+      ${donutChart(statusSegments(report.executions), passRate)}
+    </div>
+    <div>
+      <h3>By Folder</h3>
+      ${stackedBarChart(groupBars(report.executions, execution => execution.folder))}
+    </div>
+    <div>
+      <h3>By Priority</h3>
+      ${stackedBarChart(groupBars(report.executions, execution => execution.priority))}
+    </div>
+  </div>`;
+
+  const defectLinks = (execution: TestReportExecution) => execution.defects.map((defect, index) => html`${index > 0 ? ', ' : ''}${
+    defect.url
+      ? html`<a href="${defect.url}" title="${defect.summary}" target="_blank" rel="noopener noreferrer">${defect.key}</a>`
+      : defect.key
+  }`);
+
+  const executions = html`
+  <div class="executions">
+    <h3>Test Executions</h3>
+    <div class="filters">
+      <input id="execution-search" type="search" placeholder="Filter executions">
+      <select id="execution-status">
+        <option value="">All statuses</option>
+        ${Object.keys(STATUS_LABELS).map(status => html`<option value="${status}">${STATUS_LABELS[status]}</option>`)}
+      </select>
+    </div>
+    <table id="executions" class="sortable">
+      <thead>
+        <tr><th>Execution</th><th>Test Case</th><th>Name</th><th>Folder</th><th>Priority</th><th>Status</th><th>Duration</th><th>Details</th><th>Defects</th></tr>
+      </thead>
+      <tbody>
+        ${report.executions.map(execution => html`
+        <tr class="${execution.status.toLowerCase()}" data-status="${execution.status}">
+          <td>${execution.key}</td>
+          <td>${execution.testCaseKey}</td>
+          <td>${execution.testCaseName}</td>
+          <td>${execution.folder}</td>
+          <td>${execution.priority}</td>
+          <td class="status">${execution.status}</td>
+          <td data-value="${execution.durationMs ?? ''}">${formatDuration(execution.durationMs)}</td>
+          <td>
+            ${execution.failedSteps.length > 0 && html`<ul class="steps">${execution.failedSteps.map(step => html`<li>${describeStep(step)}</li>`)}</ul>`}
+            ${execution.comment}
+          </td>
+          <td>${defectLinks(execution)}</td>
+        </tr>`)}
+      </tbody>
+    </table>
+  </div>`;
+
+  return renderTemplate(template, {
+    title: `Test Execution Report - ${report.cycleName}`,
+    cycleId: report.cycleId,
+    cycleName: report.cycleName,
+    projectKey: report.projectKey,
+    generatedOn: report.generatedOn,
+    passRate,
+    styles: raw(HTML_STYLES),
+    header,
+    summary,
+    charts,
+    executions,
+    script: raw(HTML_SCRIPT),
+  });
+};
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * A tool is declared once: its zod schema is both the advertised JSON schema
+ * and the validator, and the handler receives the parsed input.
+ */
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  // Appended to invalid-parameter errors, e.g. to point callers at a better-suited tool
+  errorHint?: string;
+  handler(input: z.infer<S>): Promise<unknown>;
+}
+
+export const defineTool = <S extends z.ZodTypeAny>(definition: ToolDefinition<S>): ToolDefinition => definition;
+
+// Refinements are dropped and fields with defaults are not required, matching
+// what a client may send before validation fills them in
+export const toInputSchema = (schema: z.ZodTypeAny): Tool['inputSchema'] => {
+  const jsonSchema = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+  if (jsonSchema.type !== 'object') {
+    throw new Error('Tool input schemas must describe an object');
+  }
+  return jsonSchema as Tool['inputSchema'];
+};
+
+export const toTool = (definition: ToolDefinition): Tool => ({
+  name: definition.name,
+  description: definition.description,
+  inputSchema: toInputSchema(definition.schema),
+});
@@ -1,100 +1,305 @@
 import { z } from 'zod';
 
 export const createTestPlanSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  description: z.string().optional(),
-  projectKey: z.string().min(1, 'Project key is required'),
-  startDate: z.string().optional(),
-  endDate: z.string().optional(),
+  name: z.string().min(1, 'Name is required').describe('Test plan name'),
+  description: z.string().optional().describe('Test plan description'),
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  startDate: z.string().optional().describe('Planned start date (ISO format)'),
+  endDate: z.string().optional().describe('Planned end date (ISO format)'),
 });
 
+const testPlanIdSchema = z.string().min(1, 'Test plan ID or key is required');
+
+export const getTestPlanSchema = z.object({
+  testPlanId: testPlanIdSchema.describe('Test plan ID or key (e.g., ABC-P3)'),
+  includeCycleSummaries: z.boolean().default(true).describe('Roll up the execution summaries of the linked test cycles'),
+});
+
+export const updateTestPlanSchema = z.object({
+  testPlanId: testPlanIdSchema.describe('Test plan ID or key (e.g., ABC-P3)'),
+  name: z.string().min(1).optional().describe('New name'),
+  objective: z.string().optional().describe('New objective'),
+  status: z.string().optional().describe('Test plan status name or ID (e.g., Approved)'),
+  folderId: z.string().nullable().optional().describe('Test plan folder ID (null moves the plan to the root)'),
+  folderPath: z.string().optional().describe('Test plan folder path (e.g., /Releases)'),
+  ownerId: z.string().nullable().optional().describe('Owner account ID (null clears the owner)'),
+  labels: z.array(z.string()).optional().describe('Labels, replacing the current ones'),
+}).refine(
+  data => ['name', 'objective', 'status', 'folderId', 'folderPath', 'ownerId', 'labels']
+    .some(field => data[field as keyof typeof data] !== undefined),
+  { message: 'Provide at least one field to update' }
+);
+
+const testPlanLinksSchema = z.object({
+  testPlanId: testPlanIdSchema.describe('Test plan ID or key (e.g., ABC-P3)'),
+  testCycleIds: z.array(z.string()).optional().describe('Test cycle IDs or keys'),
+  issueKeys: z.array(z.string()).optional().describe('JIRA issue keys'),
+}).refine(
+  data => (data.testCycleIds?.length || 0) + (data.issueKeys?.length || 0) > 0,
+  { message: 'Provide testCycleIds or issueKeys' }
+);
+
+export const linkToTestPlanSchema = testPlanLinksSchema;
+export const unlinkFromTestPlanSchema = testPlanLinksSchema;
+
 export const createTestCycleSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  description: z.string().optional(),
-  projectKey: z.string().min(1, 'Project key is required'),
-  versionId: z.string().min(1, 'Version ID is required'),
-  environment: z.string().optional(),
-  startDate: z.string().optional(),
-  endDate: z.string().optional(),
+  name: z.string().min(1, 'Name is required').describe('Test cycle name'),
+  description: z.string().optional().describe('Test cycle description'),
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  versionId: z.string().min(1, 'Version ID is required').describe('JIRA version ID'),
+  environment: z.string().optional().describe('Test environment'),
+  startDate: z.string().optional().describe('Planned start date (ISO format)'),
+  endDate: z.string().optional().describe('Planned end date (ISO format)'),
 });
 
 export const readJiraIssueSchema = z.object({
-  issueKey: z.string().min(1, 'Issue key is required'),
-  fields: z.array(z.string()).optional(),
+  issueKey: z.string().min(1, 'Issue key is required').describe('JIRA issue key (e.g., ABC-123)'),
+  fields: z.array(z.string()).optional().describe('Specific fields to retrieve'),
+  descriptionFormat: z.enum(['MARKDOWN', 'ADF']).default('MARKDOWN').describe('Return rich text fields as Markdown or raw ADF'),
+});
+
+export const searchJiraIssuesSchema = z.object({
+  jql: z.string().min(1, 'JQL is required').describe('JQL query'),
+  fields: z.array(z.string()).optional().describe('Fields to retrieve (default: all)'),
+  maxResults: z.number().min(1).max(100).default(50).describe('Page size (max 100)'),
+  startAt: z.number().min(0).default(0).describe('Index of the first result, use nextStartAt from the previous page'),
+});
+
+export const getJiraProjectSchema = z.object({
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+});
+
+export const getJiraProjectVersionsSchema = z.object({
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  name: z.string().optional().describe('Look up a single version by name'),
+  includeArchived: z.boolean().default(false).describe('Include archived versions'),
+  includeReleased: z.boolean().default(true).describe('Include released versions'),
+});
+
+const adfDocumentSchema = z.object({
+  type: z.literal('doc'),
+  version: z.literal(1),
+  content: z.array(z.any()),
+});
+
+export const createJiraIssueSchema = z.object({
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  summary: z.string().min(1, 'Summary is required').describe('Issue summary'),
+  description: z.union([z.string(), adfDocumentSchema]).optional().describe('Issue description as Markdown or an ADF document'),
+  issueType: z.string().default('Task').describe('Issue type'),
+  priority: z.string().optional().describe('Priority name'),
+  assignee: z.string().optional().describe('Assignee account ID'),
+  labels: z.array(z.string()).optional().describe('Labels'),
+  components: z.array(z.string()).optional().describe('Component names'),
+});
+
+export const linkJiraIssuesSchema = z.object({
+  inwardIssueKey: z.string().min(1, 'Inward issue key is required').describe('Inward issue key (e.g., ABC-123)'),
+  outwardIssueKey: z.string().min(1, 'Outward issue key is required').describe('Outward issue key (e.g., ABC-456)'),
+  linkType: z.string().default('Relates').describe('Link type name'),
 });
 
 export const listTestPlansSchema = z.object({
-  projectKey: z.string().min(1, 'Project key is required'),
-  limit: z.number().min(1).max(100).default(50),
-  offset: z.number().min(0).default(0),
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  limit: z.number().min(1).max(100).default(50).describe('Maximum number of results'),
+  offset: z.number().min(0).default(0).describe('Number of results to skip, use nextOffset from the previous page'),
 });
 
 export const listTestCyclesSchema = z.object({
-  projectKey: z.string().min(1, 'Project key is required'),
-  versionId: z.string().optional(),
-  limit: z.number().min(1).max(100).default(50),
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  versionId: z.string().optional().describe('JIRA version ID'),
+  limit: z.number().min(1).max(100).default(50).describe('Maximum number of results'),
+  offset: z.number().min(0).default(0).describe('Number of results to skip, use nextOffset from the previous page'),
 });
 
-export const executeTestSchema = z.object({
-  executionId: z.string().min(1, 'Execution ID is required'),
-  status: z.enum(['PASS', 'FAIL', 'WIP', 'BLOCKED']),
-  comment: z.string().optional(),
-  defects: z.array(z.string()).optional(),
+export const getTestCycleSchema = z.object({
+  cycleId: z.string().min(1, 'Test cycle ID or key is required').describe('Test cycle ID or key (e.g., ABC-R12)'),
+});
+
+export const updateTestCycleSchema = z.object({
+  cycleId: z.string().min(1, 'Test cycle ID or key is required').describe('Test cycle ID or key (e.g., ABC-R12)'),
+  name: z.string().min(1).optional().describe('New name'),
+  description: z.string().optional().describe('New description'),
+  status: z.string().optional().describe('Test cycle status name or ID (e.g., In Progress)'),
+  plannedStartDate: z.string().optional().describe('Planned start date, ISO format'),
+  plannedEndDate: z.string().optional().describe('Planned end date, ISO format'),
+  folderId: z.string().nullable().optional().describe('Test cycle folder ID (null moves the cycle to the root)'),
+  folderPath: z.string().optional().describe('Test cycle folder path (e.g., /Sprint 12)'),
+  ownerId: z.string().nullable().optional().describe('Owner account ID (null clears the owner)'),
+}).refine(
+  data => ['name', 'description', 'status', 'plannedStartDate', 'plannedEndDate', 'folderId', 'folderPath', 'ownerId']
+    .some(field => data[field as keyof typeof data] !== undefined),
+  { message: 'Provide at least one field to update' }
+);
+
+export const deleteTestCycleSchema = z.object({
+  cycleId: z.string().min(1, 'Test cycle ID or key is required').describe('Test cycle ID or key (e.g., ABC-R12)'),
+  confirm: z.literal(true, {
+    errorMap: () => ({ message: 'Set confirm to true to delete the test cycle' }),
+  }).describe('Must be true to confirm the deletion'),
+});
+
+export const createRerunCycleSchema = z.object({
+  cycleId: z.string().min(1, 'Test cycle ID or key is required').describe('Source test cycle ID or key (e.g., ABC-R12)'),
+  statuses: z.array(z.enum(['PASS', 'FAIL', 'WIP', 'BLOCKED', 'NOT_EXECUTED'])).min(1).default(['FAIL', 'BLOCKED'])
+    .describe('Re-run test cases whose latest execution has one of these statuses'),
+  name: z.string().min(1).optional().describe('Defaults to the source cycle name with a "Re-run" suffix'),
+  versionId: z.string().optional().describe('JIRA version ID, defaults to the source cycle version'),
+  plannedStartDate: z.string().optional().describe('Planned start date (ISO format)'),
+  plannedEndDate: z.string().optional().describe('Planned end date (ISO format)'),
+  linkToSource: z.boolean().default(true).describe('Add a web link from the new cycle to the source cycle'),
 });
 
+const defectOptionsSchema = z.object({
+  projectKey: z.string().optional().describe('JIRA project for the defect (defaults to the test case project)'),
+  issueType: z.string().default('Bug').describe('Issue type'),
+  priority: z.string().optional().describe('Priority name'),
+  assignee: z.string().optional().describe('Assignee account ID'),
+  labels: z.array(z.string()).optional().describe('Labels'),
+  components: z.array(z.string()).optional().describe('Component names'),
+  linkType: z.string().default('Relates').describe('Link type used to relate the defect to the issues the test case covers'),
+  deduplicate: z.boolean().default(true).describe('Reuse an open defect already linked to the same test case'),
+});
+
+export const createDefectFromExecutionSchema = defectOptionsSchema.extend({
+  executionId: z.string().min(1, 'Execution ID is required').describe('Test execution ID or key'),
+  summary: z.string().optional().describe('Defect summary (defaults to "Test failed: <test case name>")'),
+  additionalDetails: z.string().optional().describe('Extra text appended to the defect description'),
+});
+
+export const executeTestSchema = z.object({
+  executionId: z.string().min(1, 'Execution ID is required').describe('Test execution ID'),
+  status: z.enum(['PASS', 'FAIL', 'WIP', 'BLOCKED']).optional().describe('Overall status, derived from every step result of the execution, with these applied, when omitted'),
+  comment: z.string().optional().describe('Execution comment'),
+  defects: z.array(z.string()).optional().describe('Linked defect keys'),
+  stepResults: z.array(z.object({
+    index: z.number().int().min(1).describe('Step number (1-based, as returned by get_test_case)'),
+    status: z.enum(['PASS', 'FAIL', 'WIP', 'BLOCKED', 'NOT_EXECUTED']).describe('Step status'),
+    actualResult: z.string().optional().describe('Actual result'),
+    comment: z.string().optional().describe('Step comment'),
+  })).optional().describe('Per-step results'),
+  createDefect: z.boolean().default(false).describe('File a defect when the execution fails'),
+  defectOptions: defectOptionsSchema.optional().describe('Options for the filed defect'),
+}).refine(
+  data => data.status !== undefined || (data.stepResults?.length || 0) > 0,
+  { message: 'Provide a status or at least one step result' }
+);
+
 export const getTestExecutionStatusSchema = z.object({
-  cycleId: z.string().min(1, 'Cycle ID is required'),
+  cycleId: z.string().min(1, 'Cycle ID is required').describe('Test cycle ID'),
+});
+
+export const getTestCaseExecutionsSchema = z.object({
+  testCaseKey: z.string().regex(/^[A-Z][A-Z0-9_]*-T\d+$/, 'Use a test case key such as PROJ-T42').describe('Test case key (e.g., PROJ-T42)'),
+  statuses: z.array(z.enum(['PASS', 'FAIL', 'WIP', 'BLOCKED', 'NOT_EXECUTED'])).min(1).optional().describe('Only include executions with these statuses'),
+  fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional().describe('Only executions finished on or after this date (YYYY-MM-DD)'),
+  toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional().describe('Only executions finished on or before this date (YYYY-MM-DD)'),
+  limit: z.number().min(1).max(100).default(20).describe('Executions per page (max 100)'),
+  offset: z.number().min(0).default(0).describe('Number of executions to skip'),
 });
 
 export const linkTestsToIssuesSchema = z.object({
-  testCaseId: z.string().min(1, 'Test case ID is required'),
-  issueKeys: z.array(z.string().min(1)).min(1, 'At least one issue key is required'),
+  testCaseId: z.string().min(1, 'Test case ID is required').describe('Test case ID'),
+  issueKeys: z.array(z.string().min(1)).min(1, 'At least one issue key is required').describe('JIRA issue keys to link'),
 });
 
 export const generateTestReportSchema = z.object({
-  cycleId: z.string().min(1, 'Cycle ID is required'),
-  format: z.enum(['JSON', 'HTML']).default('JSON'),
+  cycleId: z.string().min(1, 'Cycle ID is required').describe('Test cycle ID'),
+  format: z.enum(['JSON', 'HTML', 'MARKDOWN', 'CSV', 'JUNIT_XML']).default('JSON').describe('Report format'),
+  templatePath: z.string().optional().describe('Custom HTML template file (HTML format only), relative to MCP_TEMPLATES_DIR when set'),
+});
+
+export const generateTestPlanReportSchema = z.object({
+  testPlanId: z.string().min(1, 'Test plan ID or key is required').describe('Test plan ID or key (e.g., ABC-P3)'),
+  format: z.enum(['JSON', 'HTML']).default('JSON').describe('Report format'),
+  checkDefectStatus: z.boolean().default(true).describe('Look up defects in JIRA and only report the open ones'),
+});
+
+export const generateTrendReportSchema = z.object({
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  version: z.string().optional().describe('JIRA version name or ID the cycles belong to'),
+  cycleNamePattern: z.string().optional().describe('Cycle name pattern, * matches any text (e.g., Sprint *)'),
+  fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional().describe('Only cycles starting on or after this date (YYYY-MM-DD)'),
+  toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional().describe('Only cycles starting on or before this date (YYYY-MM-DD)'),
+  maxCycles: z.number().min(2).max(100).default(20).describe('Keep the most recent cycles only'),
+  format: z.enum(['JSON', 'MARKDOWN', 'HTML']).default('JSON').describe('Rendering returned next to the JSON data'),
+}).refine(
+  data => Boolean(data.version || data.cycleNamePattern || data.fromDate || data.toDate),
+  { message: 'Provide version, cycleNamePattern or a date range' }
+);
+
+export const compareTestCyclesSchema = z.object({
+  baseCycleId: z.string().min(1, 'Base test cycle ID or key is required').describe('Baseline test cycle ID or key (e.g., the last release)'),
+  targetCycleId: z.string().min(1, 'Target test cycle ID or key is required').describe('Test cycle ID or key to compare against the baseline'),
+}).refine(
+  data => data.baseCycleId !== data.targetCycleId,
+  { message: 'Choose two different test cycles' }
+);
+
+export const analyzeFlakyTestsSchema = z.object({
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  maxCycles: z.number().min(2).max(50).default(10).describe('Number of most recent cycles to analyze'),
+  minExecutions: z.number().min(2).default(4).describe('Ignore test cases with fewer PASS/FAIL results'),
+  minScore: z.number().min(0).max(100).default(40).describe('Only report test cases scoring at least this'),
+  limit: z.number().min(1).max(500).default(50).describe('Maximum number of test cases to return'),
+  applyLabel: z.boolean().default(false).describe('Add the label to every reported test case'),
+  label: z.string().min(1).default('flaky').describe('Label to apply'),
 });
 
 export const createTestCaseSchema = z.object({
-  projectKey: z.string().min(1, 'Project key is required'),
-  name: z.string().min(1, 'Name is required'),
-  objective: z.string().optional(),
-  precondition: z.string().optional(),
-  estimatedTime: z.number().min(0).optional(),
-  priority: z.string().optional(),
-  status: z.string().optional(),
-  folderId: z.string().optional(),
-  labels: z.array(z.string()).optional(),
-  componentId: z.string().optional(),
-  customFields: z.record(z.any()).optional(),
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  name: z.string().min(1, 'Name is required').describe('Test case name'),
+  objective: z.string().optional().describe('Test case objective/description'),
+  precondition: z.string().optional().describe('Test preconditions'),
+  estimatedTime: z.number().min(0).optional().describe('Estimated execution time in minutes'),
+  priority: z.string().optional().describe('Test case priority'),
+  status: z.string().optional().describe('Test case status'),
+  folderId: z.string().optional().describe('Folder ID to organize test case'),
+  folderPath: z.string().optional().describe('Folder path, resolved to a folder ID (e.g., /Regression/API)'),
+  labels: z.array(z.string()).optional().describe('Test case labels'),
+  componentId: z.string().optional().describe('Component ID'),
+  customFields: z.record(z.any()).optional().describe('Custom fields as key-value pairs'),
   testScript: z.object({
-    type: z.enum(['STEP_BY_STEP', 'PLAIN_TEXT']),
+    type: z.enum(['STEP_BY_STEP', 'PLAIN_TEXT', 'BDD']).describe('Script type'),
     steps: z.array(z.object({
-      index: z.number().min(1),
-      description: z.string().min(1),
-      testData: z.string().optional(),
-      expectedResult: z.string().min(1),
-    })).optional(),
-    text: z.string().optional(),
-  }).optional(),
+      index: z.number().min(1).describe('Step number'),
+      description: z.string().min(1).describe('Step description'),
+      testData: z.string().optional().describe('Test data'),
+      expectedResult: z.string().min(1).describe('Expected result'),
+    })).optional().describe('Test steps (for STEP_BY_STEP type)'),
+    text: z.string().optional().describe('Script text (for PLAIN_TEXT or BDD type)'),
+  }).optional().describe('Test script with steps'),
+});
+
+export const generateTestCasesFromIssueSchema = z.object({
+  issueKey: z.string().min(1, 'Issue key is required').describe('JIRA issue key (e.g., ABC-123)'),
+  projectKey: z.string().optional().describe('Project for the test cases (defaults to the issue project)'),
+  folderId: z.string().optional().describe('Folder ID for the test cases'),
+  folderPath: z.string().optional().describe('Folder path for the test cases, e.g. /Regression/API'),
+  labels: z.array(z.string()).optional().describe('Labels for the test cases'),
+  priority: z.string().optional().describe('Priority for the test cases'),
+  status: z.string().optional().describe('Status for the test cases'),
+  confirm: z.boolean().default(false).describe('Create the proposed test cases; otherwise only return the proposal'),
+  continueOnError: z.boolean().default(true).describe('Continue creating remaining test cases if one fails'),
 });
 
 export const getTestCaseSchema = z.object({
   testCaseId: z.string()
     .min(1, 'Test case ID is required')
-    .regex(/^[A-Z]+-T\d+$/, 'Test case ID must be in format PROJECT-T123 (e.g., CSRP-T123). For searching test cases, use get_test_cases instead.'),
+    .regex(/^[A-Z]+-T\d+$/, 'Test case ID must be an exact key in format PROJECT-T123 (e.g., CSRP-T123). To search or list test cases, use the get_test_cases tool instead.')
+    .describe('Exact test case ID in format PROJECT-T123 (e.g., "CSRP-T123")'),
 });
 
 export const createMultipleTestCasesSchema = z.object({
-  testCases: z.array(createTestCaseSchema).min(1, 'At least one test case is required'),
-  continueOnError: z.boolean().default(true),
+  testCases: z.array(createTestCaseSchema).min(1, 'At least one test case is required').describe('Array of test cases to create'),
+  continueOnError: z.boolean().default(true).describe('Continue creating remaining test cases if one fails'),
 });
 
 export const updateTestCaseSchema = z.object({
   testCaseId: z.string()
     .min(1, 'Test case ID is required')
-    .regex(/^[A-Z]+-T\d+$/, 'Test case ID must be in format PROJECT-T123 (e.g., CSRP-T123)'),
+    .regex(/^[A-Z]+-T\d+$/, 'Test case ID must be in format PROJECT-T123 (e.g., CSRP-T123)')
+    .describe('Test case ID in format PROJECT-T123 (e.g., "CSRP-T123")'),
   
   updates: z.object({
     // Basic fields
@@ -109,19 +314,20 @@ export const updateTestCaseSchema = z.object({
     
     // Organization
     folderId: z.string().optional().describe('Folder ID to move test case'),
+    folderPath: z.string().optional().describe('Folder path to move test case (e.g., /Regression/API)'),
     labels: z.array(z.string()).optional().describe('Labels/tags for the test case'),
     componentId: z.string().optional().describe('Component ID'),
     
     // Test script - complete replacement
     testScript: z.object({
-      type: z.enum(['STEP_BY_STEP', 'PLAIN_TEXT']),
+      type: z.enum(['STEP_BY_STEP', 'PLAIN_TEXT', 'BDD']).describe('Script type'),
       steps: z.array(z.object({
         index: z.number().min(1).describe('Step number (1-based)'),
         description: z.string().min(1).describe('Step description'),
         testData: z.string().optional().describe('Test data for this step'),
         expectedResult: z.string().min(1).describe('Expected result'),
       })).optional().describe('Test steps for STEP_BY_STEP type'),
-      text: z.string().optional().describe('Plain text script for PLAIN_TEXT type'),
+      text: z.string().optional().describe('Script text for PLAIN_TEXT or BDD (Gherkin steps) type'),
     }).optional().describe('Test script with steps or plain text'),
     
     // Step operations - for partial updates
@@ -145,7 +351,7 @@ export const updateTestCaseSchema = z.object({
   }).refine(
     data => Object.keys(data).length > 0,
     { message: 'At least one field must be provided for update' }
-  ),
+  ).describe('Fields to update (all optional)'),
   
   // Update options
   options: z.object({
@@ -153,11 +359,11 @@ export const updateTestCaseSchema = z.object({
     validateSteps: z.boolean().default(true).describe('Validate step consistency'),
     createBackup: z.boolean().default(false).describe('Create backup before update'),
     returnUpdated: z.boolean().default(true).describe('Return updated test case in response'),
-  }).optional(),
+  }).optional().describe('Update options'),
 });
 
 export const getTestCasesSchema = z.object({
-  projectKey: z.string().min(1, 'Project key is required'),
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
   filters: z.object({
     // Title filters
     title: z.string().optional().describe('Exact title match'),
@@ -181,7 +387,7 @@ export const getTestCasesSchema = z.object({
     
     // Organization filters
     folderId: z.string().optional().describe('Filter by folder ID'),
-    folderPath: z.string().optional().describe('Filter by folder path (e.g., /Regression/API)'),
+    folderPath: z.string().optional().describe('Filter by folder path, including subfolders (e.g., /Regression/API)'),
     labels: z.array(z.string()).optional().describe('Filter by labels/tags'),
     componentId: z.string().optional().describe('Filter by component'),
     
@@ -205,8 +411,8 @@ export const getTestCasesSchema = z.object({
     // Advanced filters
     customFields: z.record(z.any()).optional().describe('Filter by custom field values'),
     testType: z.enum(['MANUAL', 'AUTOMATED', 'BOTH']).optional().describe('Filter by test type'),
-    testScriptType: z.enum(['STEP_BY_STEP', 'PLAIN_TEXT', 'NONE']).optional().describe('Filter by script type'),
-  }).optional(),
+    testScriptType: z.enum(['STEP_BY_STEP', 'PLAIN_TEXT', 'BDD', 'NONE']).optional().describe('Filter by script type'),
+  }).optional().describe('Filter criteria (all optional)'),
   
   // Search options
   searchMode: z.enum(['AND', 'OR']).default('AND').describe('How to combine filters'),
@@ -215,7 +421,7 @@ export const getTestCasesSchema = z.object({
   
   // Pagination and sorting
   limit: z.number().min(1).max(500).default(100).describe('Maximum results to return'),
-  offset: z.number().min(0).default(0).describe('Number of results to skip'),
+  offset: z.number().min(0).default(0).describe('Number of results to skip, use nextOffset from the previous page'),
   sortBy: z.enum([
     'name', 'createdOn', 'lastModifiedOn', 'priority', 
     'status', 'estimatedTime', 'folder'
@@ -228,17 +434,181 @@ export const getTestCasesSchema = z.object({
   includeLinks: z.boolean().default(false).describe('Include linked issues in response'),
 });
 
+export const addTestCasesToCycleSchema = z.object({
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  cycleId: z.string().min(1, 'Cycle ID is required').describe('Test cycle ID or key (e.g., PROJ-R1)'),
+  testCaseKeys: z.array(
+    z.string().regex(/^[A-Z][A-Z0-9_]*-T\d+$/, 'Test case keys must be in format PROJECT-T123')
+  ).optional().describe('Test case keys to add'),
+  filters: getTestCasesSchema.shape.filters.describe('Add all test cases matching these get_test_cases filters'),
+  folderId: z.string().optional().describe('Add all test cases in this folder'),
+  folderPath: z.string().optional().describe('Add all test cases under this folder path'),
+  environment: z.string().optional().describe('Environment name for the new executions'),
+  assigneeId: z.string().optional().describe('Account ID of the assignee'),
+  plannedStartDate: z.string().optional().describe('Planned start date (ISO format)'),
+  plannedEndDate: z.string().optional().describe('Planned end date (ISO format)'),
+  skipExisting: z.boolean().default(true).describe('Skip test cases that already have an execution in the cycle'),
+}).refine(
+  data => (data.testCaseKeys?.length || 0) > 0 || data.filters !== undefined || data.folderId !== undefined || data.folderPath !== undefined,
+  { message: 'Provide testCaseKeys, filters, folderId or folderPath' }
+);
+
+const resultImportSchema = z.object({
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  filePath: z.string().optional().describe('Path to the report file'),
+  content: z.string().optional().describe('Inline report content'),
+  cycleId: z.string().optional().describe('Existing test cycle ID or key; a new cycle is created when omitted'),
+  cycleName: z.string().optional().describe('Name for the new test cycle'),
+  versionId: z.string().optional().describe('JIRA version ID for the new test cycle'),
+  environment: z.string().optional().describe('Environment name'),
+  mapping: z.record(z.string()).optional().describe('Map of result name to test case key'),
+  matchByLabel: z.boolean().default(true).describe('Match test cases whose labels contain the result name'),
+  matchByName: z.boolean().default(true).describe('Match test cases with the same name'),
+  createMissingTestCases: z.boolean().default(false).describe('Create test cases for unmatched results'),
+  folderId: z.string().optional().describe('Folder ID for created test cases'),
+  folderPath: z.string().optional().describe('Folder path for created test cases'),
+  labels: z.array(z.string()).optional().describe('Labels for created test cases'),
+});
+
+const hasSingleSource = (data: { filePath?: string; content?: string }) =>
+  Boolean(data.filePath) !== Boolean(data.content);
+
+const hasCycleOrVersion = (data: { cycleId?: string; versionId?: string }) =>
+  data.cycleId !== undefined || data.versionId !== undefined;
+
+export const importJunitResultsSchema = resultImportSchema
+  .refine(hasSingleSource, { message: 'Provide either filePath or content' })
+  .refine(hasCycleOrVersion, {
+    message: 'versionId is required when a new test cycle is created (no cycleId given)',
+    path: ['versionId'],
+  });
+
+export const importCucumberResultsSchema = resultImportSchema
+  .extend({
+    updateExistingExecutions: z.boolean().default(true).describe('Update executions already in the cycle instead of adding new ones; not-executed results leave them unchanged'),
+  })
+  .refine(hasSingleSource, { message: 'Provide either filePath or content' })
+  .refine(hasCycleOrVersion, {
+    message: 'versionId is required when a new test cycle is created (no cycleId given)',
+    path: ['versionId'],
+  });
+
+export const importFeatureFilesSchema = z.object({
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  filePaths: z.array(z.string().min(1)).optional().describe('Paths to .feature files'),
+  content: z.string().optional().describe('Inline .feature file content'),
+  folderId: z.string().optional().describe('Folder ID for created test cases'),
+  folderPath: z.string().optional().describe('Folder path for created test cases'),
+  labels: z.array(z.string()).optional().describe('Extra labels for every imported test case'),
+  updateExisting: z.boolean().default(true).describe('Update the script of test cases referenced by @PROJ-T123 tags'),
+  dryRun: z.boolean().default(false).describe('Only return the test cases that would be created or updated'),
+}).refine(
+  data => (data.filePaths?.length || 0) > 0 || Boolean(data.content),
+  { message: 'Provide filePaths or content' }
+);
+
+export const generateTraceabilityMatrixSchema = z.object({
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key holding the test cases'),
+  jql: z.string().optional().describe('JQL selecting the requirements'),
+  fixVersion: z.string().optional().describe('Fix version name, used to build the JQL when none is given'),
+  issueTypes: z.array(z.string()).optional().describe('Restrict requirements to these issue types (with fixVersion)'),
+  maxRequirements: z.number().min(1).max(1000).default(200).describe('Maximum number of requirements'),
+  formats: z.array(z.enum(['JSON', 'MARKDOWN', 'CSV'])).min(1).default(['JSON', 'MARKDOWN', 'CSV']).describe('Output formats to include'),
+}).refine(
+  data => Boolean(data.jql) || Boolean(data.fixVersion),
+  { message: 'Provide jql or fixVersion' }
+);
+
+const folderTypeSchema = z.enum(['TEST_CASE', 'TEST_PLAN', 'TEST_CYCLE']);
+
+export const listFoldersSchema = z.object({
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  folderType: folderTypeSchema.optional().describe('Only list folders of this type'),
+});
+
+export const getFolderTreeSchema = z.object({
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  folderType: folderTypeSchema.default('TEST_CASE').describe('Folder type'),
+});
+
+export const resolveFolderPathSchema = z.object({
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  folderPath: z.string().min(1, 'Folder path is required').describe('Folder path (e.g., "/Regression/API")'),
+  folderType: folderTypeSchema.default('TEST_CASE').describe('Folder type'),
+  createMissing: z.boolean().default(false).describe('Create missing folders along the path'),
+});
+
+export const createFolderSchema = z.object({
+  projectKey: z.string().min(1, 'Project key is required').describe('JIRA project key'),
+  name: z.string().min(1, 'Name is required').describe('Folder name'),
+  folderType: folderTypeSchema.default('TEST_CASE').describe('Folder type'),
+  parentId: z.string().optional().describe('Parent folder ID (omit for a root folder)'),
+  parentPath: z.string().optional().describe('Parent folder path (e.g., /Regression)'),
+});
+
+export const updateFolderSchema = z.object({
+  folderId: z.string().min(1, 'Folder ID is required').describe('Folder ID'),
+  name: z.string().min(1).optional().describe('New folder name'),
+  parentId: z.string().nullable().optional().describe('New parent folder ID (null moves the folder to the root)'),
+  parentPath: z.string().optional().describe('New parent folder path (e.g., /Regression)'),
+  projectKey: z.string().optional().describe('Project key (required when using parentPath)'),
+}).refine(
+  data => data.name !== undefined || data.parentId !== undefined || data.parentPath !== undefined,
+  { message: 'Provide a new name, parentId or parentPath' }
+).refine(
+  data => data.parentPath === undefined || data.projectKey !== undefined,
+  { message: 'projectKey is required when using parentPath', path: ['projectKey'] }
+);
+
+export const deleteFolderSchema = z.object({
+  folderId: z.string().min(1, 'Folder ID is required').describe('Folder ID'),
+  confirm: z.literal(true, {
+    errorMap: () => ({ message: 'Set confirm to true to delete the folder' }),
+  }).describe('Must be true to confirm the deletion'),
+});
+
 export type CreateTestPlanInput = z.infer<typeof createTestPlanSchema>;
+export type GetTestPlanInput = z.infer<typeof getTestPlanSchema>;
+export type UpdateTestPlanInput = z.infer<typeof updateTestPlanSchema>;
+export type LinkToTestPlanInput = z.infer<typeof linkToTestPlanSchema>;
+export type UnlinkFromTestPlanInput = z.infer<typeof unlinkFromTestPlanSchema>;
 export type CreateTestCycleInput = z.infer<typeof createTestCycleSchema>;
 export type ReadJiraIssueInput = z.infer<typeof readJiraIssueSchema>;
+export type SearchJiraIssuesInput = z.infer<typeof searchJiraIssuesSchema>;
+export type GetJiraProjectInput = z.infer<typeof getJiraProjectSchema>;
+export type GetJiraProjectVersionsInput = z.infer<typeof getJiraProjectVersionsSchema>;
+export type CreateJiraIssueInput = z.infer<typeof createJiraIssueSchema>;
+export type LinkJiraIssuesInput = z.infer<typeof linkJiraIssuesSchema>;
 export type ListTestPlansInput = z.infer<typeof listTestPlansSchema>;
 export type ListTestCyclesInput = z.infer<typeof listTestCyclesSchema>;
+export type GetTestCycleInput = z.infer<typeof getTestCycleSchema>;
+export type UpdateTestCycleInput = z.infer<typeof updateTestCycleSchema>;
+export type DeleteTestCycleInput = z.infer<typeof deleteTestCycleSchema>;
+export type CreateRerunCycleInput = z.infer<typeof createRerunCycleSchema>;
 export type ExecuteTestInput = z.infer<typeof executeTestSchema>;
+export type CreateDefectFromExecutionInput = z.infer<typeof createDefectFromExecutionSchema>;
 export type GetTestExecutionStatusInput = z.infer<typeof getTestExecutionStatusSchema>;
+export type GetTestCaseExecutionsInput = z.infer<typeof getTestCaseExecutionsSchema>;
 export type LinkTestsToIssuesInput = z.infer<typeof linkTestsToIssuesSchema>;
 export type GenerateTestReportInput = z.infer<typeof generateTestReportSchema>;
+export type GenerateTestPlanReportInput = z.infer<typeof generateTestPlanReportSchema>;
+export type GenerateTrendReportInput = z.infer<typeof generateTrendReportSchema>;
+export type CompareTestCyclesInput = z.infer<typeof compareTestCyclesSchema>;
+export type AnalyzeFlakyTestsInput = z.infer<typeof analyzeFlakyTestsSchema>;
 export type CreateTestCaseInput = z.infer<typeof createTestCaseSchema>;
 export type GetTestCaseInput = z.infer<typeof getTestCaseSchema>;
+export type GenerateTestCasesFromIssueInput = z.infer<typeof generateTestCasesFromIssueSchema>;
 export type CreateMultipleTestCasesInput = z.infer<typeof createMultipleTestCasesSchema>;
 export type UpdateTestCaseInput = z.infer<typeof updateTestCaseSchema>;
-export type GetTestCasesInput = z.infer<typeof getTestCasesSchema>;
\ No newline at end of file
+export type GetTestCasesInput = z.infer<typeof getTestCasesSchema>;
+export type AddTestCasesToCycleInput = z.infer<typeof addTestCasesToCycleSchema>;
+export type ImportJunitResultsInput = z.infer<typeof importJunitResultsSchema>;
+export type ImportCucumberResultsInput = z.infer<typeof importCucumberResultsSchema>;
+export type ImportFeatureFilesInput = z.infer<typeof importFeatureFilesSchema>;
+export type GenerateTraceabilityMatrixInput = z.infer<typeof generateTraceabilityMatrixSchema>;
+export type ListFoldersInput = z.infer<typeof listFoldersSchema>;
+export type GetFolderTreeInput = z.infer<typeof getFolderTreeSchema>;
+export type ResolveFolderPathInput = z.infer<typeof resolveFolderPathSchema>;
+export type CreateFolderInput = z.infer<typeof createFolderSchema>;
+export type UpdateFolderInput = z.infer<typeof updateFolderSchema>;
+export type DeleteFolderInput = z.infer<typeof deleteFolderSchema>;
@@ -0,0 +1,139 @@
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export const decodeXmlEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+};
+
+// Find the closing '>' of a tag, skipping over quoted attribute values
+const findTagEnd = (source: string, start: number): number => {
+  let quote: string | null = null;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Minimal XML reader for report formats such as JUnit. Handles elements,
+ * attributes, text, CDATA, comments and processing instructions; it does not
+ * validate documents or resolve DTDs.
+ */
+export const parseXml = (source: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  while (position < source.length) {
+    const current = stack[stack.length - 1];
+    const next = source.indexOf('<', position);
+
+    if (next === -1) {
+      current.text += decodeXmlEntities(source.slice(position));
+      break;
+    }
+    if (next > position) {
+      current.text += decodeXmlEntities(source.slice(position, next));
+    }
+
+    if (source.startsWith('<!--', next)) {
+      const end = source.indexOf('-->', next);
+      position = end === -1 ? source.length : end + 3;
+    } else if (source.startsWith('<![CDATA[', next)) {
+      const end = source.indexOf(']]>', next);
+      current.text += source.slice(next + 9, end === -1 ? source.length : end);
+      position = end === -1 ? source.length : end + 3;
+    } else if (source.startsWith('<?', next) || source.startsWith('<!', next)) {
+      const end = source.indexOf('>', next);
+      position = end === -1 ? source.length : end + 1;
+    } else if (source.startsWith('</', next)) {
+      const end = source.indexOf('>', next);
+      const name = source.slice(next + 2, end).trim();
+      if (current.name !== name) {
+        throw new Error(`Malformed XML: expected </${current.name}> but found </${name}>`);
+      }
+      stack.pop();
+      position = end + 1;
+    } else {
+      const end = findTagEnd(source, next);
+      if (end === -1) {
+        throw new Error('Malformed XML: unterminated tag');
+      }
+      const selfClosing = source[end - 1] === '/';
+      const body = source.slice(next + 1, selfClosing ? end - 1 : end);
+      const nameMatch = body.match(/^[^\s/>]+/);
+      if (!nameMatch) {
+        throw new Error('Malformed XML: tag without a name');
+      }
+
+      const element: XmlElement = {
+        name: nameMatch[0],
+        attributes: parseAttributes(body.slice(nameMatch[0].length)),
+        children: [],
+        text: '',
+      };
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      position = end + 1;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Malformed XML: unclosed <${stack[stack.length - 1].name}>`);
+  }
+
+  return root;
+};
+
+export const findElements = (element: XmlElement, name: string): XmlElement[] => {
+  const found: XmlElement[] = [];
+  for (const child of element.children) {
+    if (child.name === name) {
+      found.push(child);
+    }
+    found.push(...findElements(child, name));
+  }
+  return found;
+};